@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ListPlus, Plus, Trash2, XCircle, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { BatchDownloadRequest, BatchProgress, DownloadRequest, DownloadSession } from "@shared/schema";
+
+interface BatchThread {
+  threadUrl: string;
+  fromPage: number;
+  toPage: number;
+  allPages: boolean;
+}
+
+interface BatchQueueProps {
+  options: Omit<BatchDownloadRequest, "threads">;
+}
+
+const emptyThread = (): BatchThread => ({ threadUrl: "", fromPage: 1, toPage: 1, allPages: true });
+
+export default function BatchQueue({ options }: BatchQueueProps) {
+  const [threads, setThreads] = useState<BatchThread[]>([emptyThread()]);
+  const [batchId, setBatchId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const { data: progress } = useQuery<BatchProgress>({
+    queryKey: [`/api/batches/${batchId}/progress`],
+    enabled: batchId !== null,
+    refetchInterval: (query) => (query.state.data?.status === "active" ? 2000 : false),
+  });
+
+  const startBatchMutation = useMutation({
+    mutationFn: async (request: BatchDownloadRequest) => {
+      const response = await apiRequest("POST", "/api/batches", request);
+      return response.json() as Promise<{ batch: { id: number }; sessions: DownloadSession[] }>;
+    },
+    onSuccess: ({ batch, sessions }) => {
+      setBatchId(batch.id);
+      setThreads([emptyThread()]);
+      queryClient.invalidateQueries({ queryKey: ["/api/downloads"] });
+      toast({
+        title: "Batch started",
+        description: `Queued ${sessions.length} threads as batch #${batch.id}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to start batch",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelBatchMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/batches/${id}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/batches/${batchId}/progress`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/downloads"] });
+      toast({
+        title: "Batch cancelled",
+        description: "Unfinished threads in the batch were cancelled.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel batch",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateThread = (index: number, updates: Partial<BatchThread>) => {
+    setThreads(threads.map((thread, i) => (i === index ? { ...thread, ...updates } : thread)));
+  };
+
+  const filledThreads = threads.filter(thread => thread.threadUrl.trim());
+  const isValid = filledThreads.length > 0 &&
+    filledThreads.every(thread => thread.fromPage >= 1 && (thread.allPages || thread.toPage >= thread.fromPage));
+
+  const handleStartBatch = () => {
+    startBatchMutation.mutate({
+      ...options,
+      threads: filledThreads.map((thread): Pick<DownloadRequest, "threadUrl" | "fromPage" | "toPage"> => ({
+        threadUrl: thread.threadUrl.trim(),
+        fromPage: thread.fromPage,
+        toPage: thread.allPages ? "last" : thread.toPage,
+      })),
+    });
+  };
+
+  return (
+    <Card className="animate-slide-up">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ListPlus className="text-primary mr-2" />
+          Batch Download
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {threads.map((thread, index) => (
+          <div key={index} className="space-y-2 p-3 bg-muted rounded-lg">
+            <div className="flex items-center space-x-2">
+              <Input
+                placeholder="Thread URL"
+                value={thread.threadUrl}
+                onChange={(e) => updateThread(index, { threadUrl: e.target.value })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setThreads(threads.length > 1 ? threads.filter((_, i) => i !== index) : [emptyThread()])}
+                title="Remove thread"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex items-center space-x-2 text-sm">
+              <Label className="text-muted-foreground">Pages</Label>
+              <Input
+                type="number"
+                min="1"
+                value={thread.fromPage}
+                onChange={(e) => updateThread(index, { fromPage: Math.max(1, parseInt(e.target.value) || 1) })}
+                className="w-20 text-center"
+              />
+              <span className="text-muted-foreground">to</span>
+              <Input
+                type="number"
+                min={thread.fromPage}
+                value={thread.allPages ? "" : thread.toPage}
+                placeholder="last"
+                disabled={thread.allPages}
+                onChange={(e) => updateThread(index, { toPage: parseInt(e.target.value) || thread.fromPage })}
+                className="w-20 text-center"
+              />
+              <Checkbox
+                id={`batch-all-pages-${index}`}
+                checked={thread.allPages}
+                onCheckedChange={(checked) => updateThread(index, { allPages: checked === true })}
+              />
+              <Label htmlFor={`batch-all-pages-${index}`}>To last page</Label>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => setThreads([...threads, emptyThread()])}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Thread
+          </Button>
+          <Button
+            onClick={handleStartBatch}
+            disabled={!isValid || startBatchMutation.isPending}
+            className="flex-1"
+          >
+            {startBatchMutation.isPending ? "Queueing..." : `Queue ${filledThreads.length} Threads`}
+          </Button>
+        </div>
+
+        {/* Batch progress */}
+        {progress && (
+          <div className="space-y-3 border-t border-border pt-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium flex items-center">
+                {progress.status === "active" && <Loader2 className="mr-2 h-4 w-4 animate-spin text-primary" />}
+                Batch #{progress.batchId}
+                <Badge variant="secondary" className="ml-2">{progress.status}</Badge>
+              </span>
+              {progress.status === "active" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => cancelBatchMutation.mutate(progress.batchId)}
+                  disabled={cancelBatchMutation.isPending}
+                >
+                  <XCircle className="mr-1 h-4 w-4" />
+                  Cancel Batch
+                </Button>
+              )}
+            </div>
+            <Progress value={progress.overallProgress} className="h-3" />
+            <div className="text-xs text-muted-foreground">
+              {progress.completedImages}/{progress.totalImages} images
+              {progress.failedImages > 0 && `, ${progress.failedImages} failed`}
+            </div>
+            <div className="space-y-1">
+              {progress.sessions.map((session) => (
+                <div key={session.sessionId} className="flex items-center justify-between text-xs">
+                  <span className="truncate mr-2" title={session.threadUrl ?? undefined}>
+                    {session.threadTitle || session.threadUrl}
+                  </span>
+                  <span className="text-muted-foreground whitespace-nowrap">
+                    {session.status} · {session.overallProgress}%
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,21 +1,43 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { History, Trash2, RotateCcw, FolderOpen, Download, Calendar, Image as ImageIcon, Clock, AlertTriangle } from "lucide-react";
+import { History, Trash2, RotateCcw, FolderOpen, Download, Calendar, Image as ImageIcon, Clock, AlertTriangle, FileDown, ArrowUp, ArrowDown, Pause, Play } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { DownloadSession } from "@shared/schema";
+import { useDownload } from "@/hooks/use-download";
+import type { DownloadSession, ExportFormat, QueueState } from "@shared/schema";
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: "txt", label: "URL list (.txt)" },
+  { format: "json", label: "JSON" },
+  { format: "csv", label: "CSV with page, post and status" },
+  { format: "aria2", label: "aria2c input file" },
+];
 
 export default function DownloadHistory() {
   const { toast } = useToast();
+  const { pauseDownload, isPausing, resumeDownload, isResuming } = useDownload();
 
   const { data: sessions, isLoading } = useQuery({
     queryKey: ["/api/downloads"],
     refetchInterval: 5000,
   });
 
+  const { data: queue } = useQuery<QueueState>({
+    queryKey: ["/api/queue"],
+    refetchInterval: 5000,
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (sessionId: number) => {
       await apiRequest("DELETE", `/api/downloads/${sessionId}`);
@@ -55,6 +77,43 @@ export default function DownloadHistory() {
     },
   });
 
+  const promoteMutation = useMutation({
+    mutationFn: async (sessionId: number) => {
+      await apiRequest("POST", `/api/downloads/${sessionId}/promote`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/downloads"] });
+      toast({
+        title: "Download queued",
+        description: "The images found by the scan will download when the queue reaches them.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start download",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const priorityMutation = useMutation({
+    mutationFn: async ({ sessionId, priority }: { sessionId: number; priority: number }) => {
+      await apiRequest("PATCH", `/api/queue/${sessionId}`, { priority });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/queue"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/downloads"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change priority",
+        variant: "destructive",
+      });
+    },
+  });
+
   const downloadZipMutation = useMutation({
     mutationFn: async (sessionId: number) => {
       const response = await fetch(`/api/downloads/${sessionId}/zip`);
@@ -134,7 +193,15 @@ export default function DownloadHistory() {
                 session={session}
                 onDelete={() => deleteMutation.mutate(session.id)}
                 onDownloadZip={() => downloadZipMutation.mutate(session.id)}
+                onPromote={() => promoteMutation.mutate(session.id)}
+                queuePosition={queue?.queued.find((queued) => queued.id === session.id)?.position}
+                onChangePriority={(change) => priorityMutation.mutate({ sessionId: session.id, priority: session.priority + change })}
+                onPause={() => pauseDownload(session.id)}
+                onResume={() => resumeDownload(session.id)}
+                isPausing={isPausing}
+                isResuming={isResuming}
                 isDeleting={deleteMutation.isPending}
+                isPromoting={promoteMutation.isPending}
                 isDownloadingZip={downloadZipMutation.isPending}
               />
             ))}
@@ -149,11 +216,33 @@ interface HistoryItemProps {
   session: DownloadSession;
   onDelete: () => void;
   onDownloadZip: () => void;
+  onPromote: () => void;
+  queuePosition?: number;
+  onChangePriority: (change: number) => void;
+  onPause: () => void;
+  onResume: () => void;
   isDeleting: boolean;
+  isPromoting: boolean;
   isDownloadingZip: boolean;
+  isPausing: boolean;
+  isResuming: boolean;
 }
 
-function HistoryItem({ session, onDelete, onDownloadZip, isDeleting, isDownloadingZip }: HistoryItemProps) {
+function HistoryItem({
+  session,
+  onDelete,
+  onDownloadZip,
+  onPromote,
+  queuePosition,
+  onChangePriority,
+  onPause,
+  onResume,
+  isDeleting,
+  isPromoting,
+  isDownloadingZip,
+  isPausing,
+  isResuming,
+}: HistoryItemProps) {
   const getStatusBadge = () => {
     switch (session.status) {
       case "completed":
@@ -164,6 +253,14 @@ function HistoryItem({ session, onDelete, onDownloadZip, isDeleting, isDownloadi
         return <Badge className="bg-blue-100 text-blue-800">Active</Badge>;
       case "cancelled":
         return <Badge variant="secondary">Cancelled</Badge>;
+      case "scanned":
+        return <Badge className="bg-purple-100 text-purple-800">Scanned</Badge>;
+      case "paused":
+        return <Badge className="bg-yellow-100 text-yellow-800">Paused</Badge>;
+      case "interrupted":
+        return <Badge className="bg-orange-100 text-orange-800">Interrupted</Badge>;
+      case "queued":
+        return <Badge className="bg-amber-100 text-amber-800">Queued{queuePosition ? ` #${queuePosition}` : ""}</Badge>;
       default:
         return <Badge variant="outline">Pending</Badge>;
     }
@@ -197,10 +294,18 @@ function HistoryItem({ session, onDelete, onDownloadZip, isDeleting, isDownloadi
     <div className="flex items-center justify-between p-4 bg-muted rounded-lg">
       <div className="flex-1">
         <div className="flex items-center space-x-3 mb-2">
-          <div className="font-medium text-foreground">{threadTitle}</div>
+          <div className="font-medium text-foreground truncate" title={session.threadUrl ?? undefined}>{threadTitle}</div>
           {getStatusBadge()}
+          {session.batchId && (
+            <Badge variant="outline" className="text-xs">Batch #{session.batchId}</Badge>
+          )}
         </div>
         <div className="text-sm text-muted-foreground flex items-center space-x-4">
+          {session.threadTitle && (
+            <span>
+              Pages {session.fromPage}-{session.toPage}
+            </span>
+          )}
           <span className="flex items-center">
             <ImageIcon className="mr-1 h-3 w-3" />
             {session.totalImages || 0} images
@@ -216,7 +321,7 @@ function HistoryItem({ session, onDelete, onDownloadZip, isDeleting, isDownloadi
             {formatDate(session.startedAt)}
           </span>
         </div>
-        {session.status === "failed" && session.errorMessage && (
+        {(session.status === "failed" || session.status === "interrupted") && session.errorMessage && (
           <div className="mt-2 text-sm text-red-600 flex items-center">
             <AlertTriangle className="mr-1 h-3 w-3" />
             {session.errorMessage}
@@ -224,6 +329,27 @@ function HistoryItem({ session, onDelete, onDownloadZip, isDeleting, isDownloadi
         )}
       </div>
       <div className="flex items-center space-x-2">
+        {session.status === "queued" && (
+          <>
+            <Button variant="ghost" size="sm" onClick={() => onChangePriority(1)} title={`Raise priority (now ${session.priority})`}>
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onChangePriority(-1)} title={`Lower priority (now ${session.priority})`}>
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+        {(session.status === "active" || session.status === "queued") && (
+          <Button variant="ghost" size="sm" onClick={onPause} disabled={isPausing} title="Pause download">
+            <Pause className="h-4 w-4" />
+          </Button>
+        )}
+        {(session.status === "paused" || session.status === "interrupted") && (
+          <Button size="sm" onClick={onResume} disabled={isResuming} title="Resume download">
+            <Play className="mr-1 h-4 w-4" />
+            Resume
+          </Button>
+        )}
         {session.status === "failed" && (
           <Button variant="ghost" size="sm" title="Retry download">
             <RotateCcw className="h-4 w-4" />
@@ -232,6 +358,37 @@ function HistoryItem({ session, onDelete, onDownloadZip, isDeleting, isDownloadi
         <Button variant="ghost" size="sm" title="Show files">
           <FolderOpen className="h-4 w-4" />
         </Button>
+        {(session.totalImages || 0) > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" title="Export link list">
+                <FileDown className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Export links</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {EXPORT_OPTIONS.map(({ format, label }) => (
+                <DropdownMenuItem key={format} asChild>
+                  <a href={`/api/downloads/${session.id}/export?format=${format}`} download>
+                    {label}
+                  </a>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        {session.status === "scanned" && (
+          <Button
+            size="sm"
+            onClick={onPromote}
+            disabled={isPromoting}
+            title="Download the scanned images"
+          >
+            <Download className="mr-1 h-4 w-4" />
+            Download
+          </Button>
+        )}
         {session.status === "completed" && session.outputFormat === "zip" && (
           <Button
             size="sm"
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { UserCheck, UserX, LogOut, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ForumAccountStatus } from "@shared/schema";
+
+export default function ForumAccount() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const { toast } = useToast();
+
+  const { data: account } = useQuery<ForumAccountStatus>({
+    queryKey: ["/api/forum/account"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/forum/account", { username, password });
+      return (await response.json()) as ForumAccountStatus;
+    },
+    onSuccess: (status) => {
+      // The password only lives on the server from here on
+      setPassword("");
+      queryClient.setQueryData(["/api/forum/account"], status);
+      toast({
+        title: status.loggedIn ? "Logged in" : "Login failed",
+        description: status.loggedIn ? "Threads are now read as a forum member" : status.lastError,
+        variant: status.loggedIn ? "default" : "destructive",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Login failed",
+        description: error instanceof Error ? error.message : "Failed to save forum account",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/forum/account");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/forum/account"] });
+    },
+  });
+
+  return (
+    <Card className="glass border-border/50">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            {account?.loggedIn ? (
+              <UserCheck className="h-5 w-5 text-primary" />
+            ) : (
+              <UserX className="h-5 w-5 text-muted-foreground" />
+            )}
+            <span>Forum Account</span>
+          </span>
+          <Badge variant={account?.loggedIn ? "default" : "secondary"}>
+            {account?.loggedIn ? "Logged in" : "Guest"}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {account?.configured ? (
+          <>
+            {account.loggedIn && account.loggedInAt && (
+              <p className="text-sm text-muted-foreground">
+                Session started {new Date(account.loggedInAt).toLocaleString()}
+              </p>
+            )}
+            {account.lastError && (
+              <Alert variant="destructive">
+                <AlertDescription>{account.lastError}</AlertDescription>
+              </Alert>
+            )}
+            <Button
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              variant="outline"
+              size="sm"
+              className="touch-button"
+            >
+              <LogOut className="mr-2 h-4 w-4" />
+              Log out and forget account
+            </Button>
+          </>
+        ) : (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            <p className="text-sm text-muted-foreground">
+              Some threads are only visible to members. Log in once and the session is kept on the server.
+            </p>
+            <Input
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="Forum username"
+              autoComplete="username"
+            />
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoComplete="current-password"
+            />
+            <Button
+              type="submit"
+              disabled={!username || !password || saveMutation.isPending}
+              size="sm"
+              className="touch-button gradient-bg"
+            >
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Log in
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { thumbnailUrl } from "@/lib/utils";
 
 interface ScrapedImage {
   previewUrl: string;
@@ -201,7 +202,7 @@ export default function ImagePreview({ threadUrl, fromPage, toPage, onImagesSele
                       >
                         <div className="aspect-square bg-gray-100 relative">
                           <img
-                            src={image.previewUrl}
+                            src={thumbnailUrl(image.previewUrl, image.hostingSite)}
                             alt={`Preview from ${image.hostingSite}`}
                             className="w-full h-full object-cover"
                             onError={(e) => {
@@ -9,28 +9,33 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 interface PageRange {
   from: number;
   to: number;
+  toLast?: boolean; // Resolve "to" to the thread's last page when the download starts
 }
 
 interface PageRangeSelectorProps {
   detectedPage: number | null;
+  totalPages?: number | null;
   pageRange: PageRange;
   onPageRangeChange: (range: PageRange) => void;
 }
 
 export default function PageRangeSelector({
   detectedPage,
+  totalPages,
   pageRange,
   onPageRangeChange,
 }: PageRangeSelectorProps) {
+  const clampToThread = (page: number) => (totalPages ? Math.min(page, totalPages) : page);
+
   // Auto-center range around detected page
   useEffect(() => {
     if (detectedPage) {
       onPageRangeChange({
         from: Math.max(1, detectedPage - 1),
-        to: detectedPage + 1,
+        to: clampToThread(detectedPage + 1),
       });
     }
-  }, [detectedPage, onPageRangeChange]);
+  }, [detectedPage, totalPages, onPageRangeChange]);
 
   const currentPage = detectedPage || pageRange.from;
   const pageCount = pageRange.to - pageRange.from + 1;
@@ -38,22 +43,31 @@ export default function PageRangeSelector({
   const handleFromPageChange = (value: number) => {
     onPageRangeChange({
       ...pageRange,
-      from: Math.max(1, value),
+      from: clampToThread(Math.max(1, value)),
     });
   };
 
   const handleToPageChange = (value: number) => {
     onPageRangeChange({
       ...pageRange,
-      to: Math.max(1, value),
+      to: clampToThread(Math.max(1, value)),
+      toLast: false,
     });
   };
 
-  const setQuickRange = (totalPages: number) => {
-    const halfRange = Math.floor((totalPages - 1) / 2);
+  const setQuickRange = (rangeSize: number) => {
+    const halfRange = Math.floor((rangeSize - 1) / 2);
     onPageRangeChange({
       from: Math.max(1, currentPage - halfRange),
-      to: currentPage + halfRange,
+      to: clampToThread(currentPage + halfRange),
+    });
+  };
+
+  const setToLastPage = (from: number) => {
+    onPageRangeChange({
+      from,
+      to: Math.max(from, totalPages || from),
+      toLast: true,
     });
   };
 
@@ -70,6 +84,9 @@ export default function PageRangeSelector({
         <div className="flex items-center justify-center bg-muted rounded-lg p-4">
           <span className="text-sm text-muted-foreground mr-2">Current page:</span>
           <span className="text-xl font-semibold text-primary">{currentPage}</span>
+          {totalPages && (
+            <span className="text-sm text-muted-foreground ml-2">of {totalPages}</span>
+          )}
         </div>
 
         {/* Range controls */}
@@ -96,6 +113,7 @@ export default function PageRangeSelector({
                 variant="outline"
                 size="icon"
                 onClick={() => handleFromPageChange(pageRange.from + 1)}
+                disabled={!!totalPages && pageRange.from >= totalPages}
               >
                 <Plus className="h-4 w-4" />
               </Button>
@@ -116,6 +134,7 @@ export default function PageRangeSelector({
               <Input
                 type="number"
                 min={pageRange.from}
+                max={totalPages || undefined}
                 value={pageRange.to}
                 onChange={(e) => handleToPageChange(parseInt(e.target.value) || pageRange.from)}
                 className="text-center"
@@ -124,6 +143,7 @@ export default function PageRangeSelector({
                 variant="outline"
                 size="icon"
                 onClick={() => handleToPageChange(pageRange.to + 1)}
+                disabled={!!totalPages && pageRange.to >= totalPages}
               >
                 <Plus className="h-4 w-4" />
               </Button>
@@ -165,13 +185,33 @@ export default function PageRangeSelector({
           >
             ±5 pages
           </Button>
+          <Button
+            variant={pageRange.toLast ? "default" : "secondary"}
+            size="sm"
+            onClick={() => setToLastPage(pageRange.from)}
+            className="text-xs"
+          >
+            To last page
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => setToLastPage(1)}
+            className="text-xs"
+          >
+            All pages
+          </Button>
         </div>
 
         {/* Pages summary */}
         <Alert className="bg-amber-50 border-amber-200">
           <Calculator className="h-4 w-4 text-amber-600" />
           <AlertDescription className="text-amber-800">
-            Will download from <strong>{pageCount}</strong> pages ({pageRange.from}-{pageRange.to})
+            {pageRange.toLast ? (
+              <>Will download from page <strong>{pageRange.from}</strong> to the last page{totalPages ? ` (currently ${totalPages})` : ""}</>
+            ) : (
+              <>Will download from <strong>{pageCount}</strong> pages ({pageRange.from}-{pageRange.to})</>
+            )}
           </AlertDescription>
         </Alert>
       </CardContent>
@@ -1,21 +1,26 @@
 import { useQuery } from "@tanstack/react-query";
-import { CheckCircle, Clock, Loader2, BarChart3, Image, AlertCircle } from "lucide-react";
+import { CheckCircle, Clock, Loader2, BarChart3, Image, AlertCircle, Pause, Play } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
 import { getQueryFn } from "@/lib/queryClient";
-import type { DownloadProgress } from "@shared/schema";
+import { useDownload } from "@/hooks/use-download";
+import type { DownloadProgress, DownloadSession } from "@shared/schema";
 
 export default function ProgressPanel() {
-  // Get the most recent active session ID
-  const { data: sessions } = useQuery({
+  const { pauseDownload, isPausing, resumeDownload, isResuming } = useDownload();
+
+  // Get the most recent active session ID, falling back to a paused or interrupted one so it can be resumed from here
+  const { data: sessions } = useQuery<DownloadSession[] | null>({
     queryKey: ["/api/downloads"],
     queryFn: getQueryFn({ on401: "returnNull" }),
     refetchInterval: 2000,
   });
 
-  const activeSession = sessions?.find((s: any) => s.status === "active");
+  const activeSession = sessions?.find((s) => s.status === "active") ?? sessions?.find((s) => s.status === "paused" || s.status === "interrupted");
   const sessionId = activeSession?.id;
+  const isPaused = activeSession?.status === "paused" || activeSession?.status === "interrupted";
 
   const { data: progress } = useQuery({
     queryKey: ["/api/downloads", sessionId, "progress"],
@@ -50,10 +55,23 @@ export default function ProgressPanel() {
       {/* Current Progress Card */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center">
-            <BarChart3 className="text-primary mr-2" />
-            Current Progress
-          </CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center">
+              <BarChart3 className="text-primary mr-2" />
+              Current Progress
+            </CardTitle>
+            {isPaused ? (
+              <Button size="sm" onClick={() => resumeDownload(sessionId)} disabled={isResuming}>
+                <Play className="mr-1 h-4 w-4" />
+                Resume
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => pauseDownload(sessionId)} disabled={isPausing}>
+                <Pause className="mr-1 h-4 w-4" />
+                Pause
+              </Button>
+            )}
+          </div>
         </CardHeader>
         <CardContent className="space-y-4">
           {/* Overall progress */}
@@ -69,7 +87,7 @@ export default function ProgressPanel() {
 
           {/* Current stage */}
           <Alert className="bg-blue-50 border-blue-200">
-            <Loader2 className="h-4 w-4 text-blue-600 animate-spin" />
+            {isPaused ? <Pause className="h-4 w-4 text-blue-600" /> : <Loader2 className="h-4 w-4 text-blue-600 animate-spin" />}
             <AlertDescription className="text-blue-800">
               {downloadProgress?.currentStage || "Initializing..."}
             </AlertDescription>
@@ -120,9 +138,18 @@ export default function ProgressPanel() {
                   </div>
                   <div className="flex-1 min-w-0">
                     <div className="text-sm font-medium truncate">{download.filename}</div>
-                    <div className="text-xs text-muted-foreground">{download.hostingSite}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {download.hostingSite}
+                      {download.attempts > 1 && ` · attempt ${download.attempts}`}
+                      {download.lastAttemptAt && ` · last tried ${new Date(download.lastAttemptAt).toLocaleTimeString()}`}
+                    </div>
+                    {download.status === "failed" && download.errorMessage && (
+                      <div className="text-xs text-red-600 truncate" title={download.errorMessage}>{download.errorMessage}</div>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {download.status === "failed" ? "Failed" : `${download.progress}%`}
                   </div>
-                  <div className="text-xs text-muted-foreground">{download.progress}%</div>
                 </div>
               ))}
             </div>
@@ -6,39 +6,54 @@ import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { useForumSettings } from "@/hooks/use-forum-settings";
+import type { ParsedThreadUrl } from "@shared/schema";
 
 interface UrlInputProps {
   value: string;
   onChange: (url: string) => void;
   onPageDetected: (page: number | null) => void;
+  onTotalPagesDetected?: (totalPages: number | null) => void;
+  onPostDetected?: (postId: string | null) => void;
 }
 
-export default function UrlInput({ value, onChange, onPageDetected }: UrlInputProps) {
+export default function UrlInput({ value, onChange, onPageDetected, onTotalPagesDetected, onPostDetected }: UrlInputProps) {
   const [detectedPage, setDetectedPage] = useState<number | null>(null);
+  const [threadInfo, setThreadInfo] = useState<ParsedThreadUrl | null>(null);
+  const { isForumUrl } = useForumSettings();
 
   const parseUrlMutation = useMutation({
     mutationFn: async (url: string) => {
       const response = await apiRequest("POST", "/api/parse-url", { url });
-      return response.json();
+      return (await response.json()) as ParsedThreadUrl;
     },
     onSuccess: (data) => {
       if (data.currentPage) {
         setDetectedPage(data.currentPage);
         onPageDetected(data.currentPage);
       }
+      setThreadInfo(data);
+      onTotalPagesDetected?.(data.totalPages ?? null);
+      onPostDetected?.(data.postId ?? null);
     },
     onError: () => {
       setDetectedPage(null);
       onPageDetected(null);
+      setThreadInfo(null);
+      onTotalPagesDetected?.(null);
+      onPostDetected?.(null);
     },
   });
 
   useEffect(() => {
-    if (value && value.includes("vipergirls.to")) {
+    if (value && isForumUrl(value)) {
       parseUrlMutation.mutate(value);
     } else {
       setDetectedPage(null);
       onPageDetected(null);
+      setThreadInfo(null);
+      onTotalPagesDetected?.(null);
+      onPostDetected?.(null);
     }
   }, [value]);
 
@@ -87,6 +102,25 @@ export default function UrlInput({ value, onChange, onPageDetected }: UrlInputPr
             </AlertDescription>
           </Alert>
         )}
+
+        {threadInfo?.postId && (
+          <Alert className="bg-blue-50 border-blue-200">
+            <Info className="h-4 w-4 text-blue-600" />
+            <AlertDescription className="text-blue-800">
+              Link points to post <strong>#{threadInfo.postId}</strong>; only that post will be downloaded
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {threadInfo?.totalPages && (
+          <Alert className="bg-blue-50 border-blue-200">
+            <Info className="h-4 w-4 text-blue-600" />
+            <AlertDescription className="text-blue-800">
+              {threadInfo.threadTitle && <strong className="block truncate">{threadInfo.threadTitle}</strong>}
+              Thread has <strong>{threadInfo.totalPages}</strong> {threadInfo.totalPages === 1 ? "page" : "pages"}
+            </AlertDescription>
+          </Alert>
+        )}
       </CardContent>
     </Card>
   );
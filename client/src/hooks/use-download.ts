@@ -13,9 +13,10 @@ export function useDownload() {
     },
     onSuccess: (session) => {
       queryClient.invalidateQueries({ queryKey: ["/api/downloads"] });
+      const pages = `${session.fromPage}-${session.toLastPage ? "last" : session.toPage}`;
       toast({
-        title: "Download started",
-        description: `Started downloading pages ${session.fromPage}-${session.toPage}`,
+        title: session.scanOnly ? "Scan queued" : "Download queued",
+        description: session.scanOnly ? `Will list the images on pages ${pages}` : `Will download pages ${pages}`,
       });
     },
     onError: (error) => {
@@ -27,8 +28,52 @@ export function useDownload() {
     },
   });
 
+  const pauseMutation = useMutation({
+    mutationFn: async (sessionId: number) => {
+      await apiRequest("POST", `/api/downloads/${sessionId}/pause`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/downloads"] });
+      toast({
+        title: "Download paused",
+        description: "Finished images are kept; resume to fetch the rest.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to pause download",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: async (sessionId: number) => {
+      await apiRequest("POST", `/api/downloads/${sessionId}/resume`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/downloads"] });
+      toast({
+        title: "Download resumed",
+        description: "The remaining images are back in the queue.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to resume download",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
   return {
     startDownload: startDownloadMutation.mutate,
     isStarting: startDownloadMutation.isPending,
+    pauseDownload: pauseMutation.mutate,
+    isPausing: pauseMutation.isPending,
+    resumeDownload: resumeMutation.mutate,
+    isResuming: resumeMutation.isPending,
   };
 }
@@ -0,0 +1,55 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ForumSettings } from "@shared/schema";
+
+// Used until the server's settings arrive
+const DEFAULT_DOMAINS = ["vipergirls.to"];
+
+// Thread links, post permalinks (/posts/...) and vBulletin showthread.php links on any vBulletin or XenForo board
+const THREAD_URL_PATTERN = /https?:\/\/[^\s/]+\/(?:[^\s]*\/)?(?:threads\/|posts\/|show(?:thread|post)\.php)[^\s]*/gi;
+
+// Links straight to an image file, which the server takes from any public web server
+const IMAGE_PATH = /\.(?:jpe?g|png|gif|webp)$/i;
+
+function matchesAnyDomain(hostname: string, domains: string[]): boolean {
+  return domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+export function useForumSettings() {
+  const { data } = useQuery<ForumSettings>({ queryKey: ["/api/forum"] });
+  const domains = data?.domains ?? DEFAULT_DOMAINS;
+
+  const isConfiguredForum = (url: string) => {
+    try {
+      return matchesAnyDomain(new URL(url).hostname.toLowerCase(), domains);
+    } catch {
+      return false;
+    }
+  };
+
+  // Until the settings arrive, links are left for the server to judge
+  const isSupportedForum = (url: string) => {
+    if (!data) return true;
+    try {
+      return isConfiguredForum(url) || matchesAnyDomain(new URL(url).hostname.toLowerCase(), data.genericDomains);
+    } catch {
+      return false;
+    }
+  };
+
+  const isSupportedImageLink = (url: URL) =>
+    !data || IMAGE_PATH.test(url.pathname) || matchesAnyDomain(url.hostname.toLowerCase(), data.imageHosts);
+
+  // Prefers a link on the configured forum when the text holds several
+  const findThreadUrl = (text: string): string | null => {
+    const urls = text.match(THREAD_URL_PATTERN) ?? [];
+    return urls.find(isConfiguredForum) ?? urls[0] ?? null;
+  };
+
+  return {
+    domains,
+    findThreadUrl,
+    isSupportedForum,
+    isSupportedImageLink,
+    isForumUrl: (text: string): boolean => findThreadUrl(text) !== null,
+  };
+}
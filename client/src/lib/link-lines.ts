@@ -0,0 +1,68 @@
+export interface UnusableLine {
+  line: number
+  text: string
+  reason: string
+}
+
+// What the server accepts, as far as the client knows it
+export interface LinkLineRules {
+  findThreadUrl(text: string): string | null
+  isSupportedForum(url: string): boolean
+  isSupportedImageLink(url: URL): boolean
+}
+
+export interface ParsedLinkLines {
+  threadUrls: string[]
+  links: string[]
+  unusable: UnusableLine[]
+}
+
+// Sorts pasted text line by line into forum thread links, links to import and lines that cannot be used
+export function parseLinkLines(text: string, rules: LinkLineRules): ParsedLinkLines {
+  const result: ParsedLinkLines = { threadUrls: [], links: [], unusable: [] }
+  const seen = new Set<string>()
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    // Forum BBCode and list markers often come along with copied links
+    const line = rawLine.trim().replace(/^\[url\]|\[\/url\]$/gi, "").replace(/^[-*•]\s+/, "")
+    if (!line) return
+
+    // Thread links may sit inside a sentence, as the extractor has always accepted
+    const threadUrl = rules.findThreadUrl(line)
+    if (threadUrl) {
+      if (!rules.isSupportedForum(threadUrl)) {
+        result.unusable.push({ line: index + 1, text: rawLine.trim(), reason: "Not a supported forum" })
+        return
+      }
+      if (!result.threadUrls.includes(threadUrl)) result.threadUrls.push(threadUrl)
+      return
+    }
+
+    let url: URL
+    try {
+      url = new URL(line)
+    } catch {
+      result.unusable.push({ line: index + 1, text: rawLine.trim(), reason: "Not a URL" })
+      return
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      result.unusable.push({ line: index + 1, text: rawLine.trim(), reason: "Not a web link" })
+      return
+    }
+
+    if (!rules.isSupportedImageLink(url)) {
+      result.unusable.push({ line: index + 1, text: rawLine.trim(), reason: "Not a supported image host or image link" })
+      return
+    }
+
+    const href = url.toString()
+    if (seen.has(href)) {
+      result.unusable.push({ line: index + 1, text: rawLine.trim(), reason: "Duplicate link" })
+      return
+    }
+    seen.add(href)
+    result.links.push(href)
+  })
+
+  return result
+}
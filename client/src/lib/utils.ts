@@ -4,3 +4,10 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Previews of known hosts load through the server's thumbnail proxy, which sends the headers image hosts expect;
+// images posted directly are loaded by the browser, since the proxy only fetches from known hosts
+export function thumbnailUrl(previewUrl: string, hostingSite?: string): string {
+  if (!previewUrl || hostingSite === 'direct') return previewUrl
+  return `/api/thumb?url=${encodeURIComponent(previewUrl)}`
+}
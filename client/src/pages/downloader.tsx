@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Download, Settings, HelpCircle, Eye } from "lucide-react";
+import { Download, Settings, HelpCircle, Eye, ScanSearch } from "lucide-react";
 import UrlInput from "@/components/url-input";
 import PageRangeSelector from "@/components/page-range-selector";
 import DownloadOptions from "@/components/download-options";
@@ -7,6 +7,7 @@ import DirectoryPicker from "@/components/directory-picker";
 import ImagePreview from "@/components/image-preview";
 import ProgressPanel from "@/components/progress-panel";
 import DownloadHistory from "@/components/download-history";
+import BatchQueue from "@/components/batch-queue";
 import { Button } from "@/components/ui/button";
 import { useDownload } from "@/hooks/use-download";
 import type { DownloadRequest } from "@shared/schema";
@@ -14,7 +15,9 @@ import type { DownloadRequest } from "@shared/schema";
 export default function DownloaderPage() {
   const [threadUrl, setThreadUrl] = useState("");
   const [detectedPage, setDetectedPage] = useState<number | null>(null);
-  const [pageRange, setPageRange] = useState({ from: 1, to: 1 });
+  const [totalPages, setTotalPages] = useState<number | null>(null);
+  const [postId, setPostId] = useState<string | null>(null);
+  const [pageRange, setPageRange] = useState<{ from: number; to: number; toLast?: boolean }>({ from: 1, to: 1 });
   const [showPreview, setShowPreview] = useState(false);
   const [selectedImages, setSelectedImages] = useState<any[]>([]);
   const [downloadOptions, setDownloadOptions] = useState({
@@ -29,13 +32,15 @@ export default function DownloaderPage() {
 
   const { startDownload, isStarting } = useDownload();
 
-  const handleStartDownload = async () => {
+  const handleStartDownload = async (scanOnly = false) => {
     if (!threadUrl) return;
 
     const request: DownloadRequest = {
       threadUrl,
       fromPage: pageRange.from,
-      toPage: pageRange.to,
+      toPage: pageRange.toLast ? "last" : pageRange.to,
+      postId: postId ?? undefined,
+      scanOnly,
       ...downloadOptions,
       downloadLocation: downloadLocation,
       selectedImages: selectedImages.length > 0 ? selectedImages : undefined,
@@ -84,10 +89,13 @@ export default function DownloaderPage() {
               value={threadUrl}
               onChange={setThreadUrl}
               onPageDetected={setDetectedPage}
+              onTotalPagesDetected={setTotalPages}
+              onPostDetected={setPostId}
             />
 
             <PageRangeSelector
               detectedPage={detectedPage}
+              totalPages={totalPages}
               pageRange={pageRange}
               onPageRangeChange={setPageRange}
             />
@@ -110,7 +118,19 @@ export default function DownloaderPage() {
               </Button>
               
               <Button
-                onClick={handleStartDownload}
+                onClick={() => handleStartDownload(true)}
+                disabled={!isFormValid || isStarting}
+                variant="outline"
+                className="flex-1 h-12 text-base font-semibold"
+                size="lg"
+                title="List the images and their sizes without downloading them"
+              >
+                <ScanSearch className="mr-2 h-5 w-5" />
+                Scan Only
+              </Button>
+
+              <Button
+                onClick={() => handleStartDownload()}
                 disabled={!isFormValid || isStarting}
                 className="flex-1 h-12 text-base font-semibold"
                 size="lg"
@@ -119,6 +139,8 @@ export default function DownloaderPage() {
                 {isStarting ? "Starting Download..." : "Start Download"}
               </Button>
             </div>
+
+            <BatchQueue options={{ ...downloadOptions, downloadLocation }} />
           </div>
 
           {/* Progress Sidebar */}
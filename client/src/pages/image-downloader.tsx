@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Download, Eye, Copy, CheckCircle2, AlertCircle, Loader2, Image, ExternalLink } from "lucide-react";
+import { Download, Eye, Copy, CheckCircle2, AlertCircle, Loader2, Image, ExternalLink, ListPlus } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,9 +7,14 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
+import { useForumSettings } from "@/hooks/use-forum-settings";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { thumbnailUrl } from "@/lib/utils";
+import { parseLinkLines, type UnusableLine } from "@/lib/link-lines";
+import type { LinkImportResult } from "@shared/schema";
 import PWAInstallButton from "@/components/pwa-install-button";
+import ForumAccount from "@/components/forum-account";
 
 interface ImageData {
   url: string;
@@ -18,6 +23,17 @@ interface ImageData {
   fileName: string;
   isValid: boolean;
   pageNumber?: number;
+  postId?: string;
+  galleryId?: string;
+}
+
+interface PostSummary {
+  postId: string;
+  author?: string;
+  postDate?: string;
+  pageNumber: number;
+  summary: string;
+  imageCount: number;
 }
 
 interface PageText {
@@ -26,6 +42,17 @@ interface PageText {
   fullText: string;
 }
 
+// Badge colors per image host, so mixed threads are easy to scan
+const hostBadgeClasses: Record<string, string> = {
+  'imagebam.com': 'bg-primary text-primary-foreground',
+  'imgbox.com': 'bg-sky-600 text-white',
+  'pixhost.to': 'bg-emerald-600 text-white',
+  'imx.to': 'bg-orange-500 text-white',
+  'vipr.im': 'bg-fuchsia-600 text-white',
+  'imagevenue.com': 'bg-amber-600 text-white',
+  'turboimagehost.com': 'bg-rose-600 text-white',
+};
+
 interface DownloadProgress {
   url: string;
   progress: number;
@@ -36,9 +63,17 @@ export default function ImageDownloaderPage() {
   const [inputUrl, setInputUrl] = useState("");
   const [images, setImages] = useState<ImageData[]>([]);
   const [downloads, setDownloads] = useState<DownloadProgress[]>([]);
+  const [posts, setPosts] = useState<PostSummary[]>([]);
   const [pageTexts, setPageTexts] = useState<PageText[]>([]);
   const [scannedPages, setScannedPages] = useState(0);
+  const [rejectedLines, setRejectedLines] = useState<UnusableLine[]>([]);
   const { toast } = useToast();
+  const linkRules = useForumSettings();
+  const { findThreadUrl } = linkRules;
+
+  // Lines the client can tell are unusable show while typing; the server's rejections follow an import
+  const parsedLines = parseLinkLines(inputUrl, linkRules);
+  const unusableLines = [...parsedLines.unusable, ...rejectedLines];
 
   const extractImagesMutation = useMutation({
     mutationFn: async (threadUrl: string) => {
@@ -52,12 +87,14 @@ export default function ImageDownloaderPage() {
     },
     onSuccess: (data) => {
       setImages(data.images || []);
+      setPosts(data.posts || []);
       setPageTexts(data.pageTexts || []);
       setScannedPages(data.scannedPages || 0);
       if (data.images?.length > 0) {
         toast({
           title: "Images extracted",
-          description: `Found ${data.images.length} images across ${data.scannedPages} pages`,
+          description: `Found ${data.images.length} images across ${data.scannedPages} pages` +
+            (data.duplicatesDropped > 0 ? ` (${data.duplicatesDropped} duplicates skipped)` : ''),
         });
       }
     },
@@ -70,8 +107,62 @@ export default function ImageDownloaderPage() {
     }
   });
 
+  const importLinksMutation = useMutation({
+    mutationFn: async (links: string[]): Promise<LinkImportResult> => {
+      const response = await fetch('/api/import-links', {
+        method: 'POST',
+        body: JSON.stringify({ links }),
+        headers: { 'Content-Type': 'application/json' }
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        // The server reports why each link was refused even when none could be used
+        setRejectedLines(prev => [...prev, ...toUnusableLines(data.rejected || [])]);
+        throw new Error(data.error || 'Failed to import links');
+      }
+      return data;
+    },
+    onSuccess: (data) => {
+      setRejectedLines(prev => [...prev, ...toUnusableLines(data.rejected)]);
+      toast({
+        title: "Links imported",
+        description: `Session #${data.session.id} queued with ${data.imageCount} images` +
+          (data.rejected.length > 0 ? ` (${data.rejected.length} links skipped)` : ''),
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Failed to import links",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Server rejections are matched back to the pasted line they came from
+  const toUnusableLines = (rejected: LinkImportResult['rejected']): UnusableLine[] => {
+    const lines = inputUrl.split(/\r?\n/);
+    return rejected.map(({ link, reason }) => {
+      const index = lines.findIndex(line => line.includes(link));
+      return { line: index + 1, text: link, reason };
+    });
+  };
+
   const downloadImageMutation = useMutation({
-    mutationFn: async (imageData: ImageData) => {
+    mutationFn: async (imageData: ImageData): Promise<Blob | null> => {
+      // The server only fetches from known hosts, so a directly posted image is saved by the browser from its own URL
+      if (imageData.hostingSite === 'direct') {
+        const a = document.createElement('a');
+        a.href = imageData.url;
+        a.download = imageData.fileName;
+        a.target = '_blank';
+        a.rel = 'noopener';
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        return null;
+      }
+
       const response = await fetch('/api/download-image', {
         method: 'POST',
         body: JSON.stringify({ 
@@ -86,14 +177,16 @@ export default function ImageDownloaderPage() {
     },
     onSuccess: (blob, imageData) => {
       // Create download link
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = imageData.fileName;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      if (blob) {
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = imageData.fileName;
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+      }
 
       // Update download status
       setDownloads(prev => prev.map(d => 
@@ -122,18 +215,18 @@ export default function ImageDownloaderPage() {
     }
   });
 
-  const parseViperGirlsUrl = (input: string): string | null => {
-    const urlRegex = /https?:\/\/(?:www\.)?vipergirls\.to\/threads\/[^\s]+/;
-    const match = input.match(urlRegex);
-    return match ? match[0] : null;
+  const handleImportLinks = () => {
+    setRejectedLines([]);
+    importLinksMutation.mutate(parsedLines.links);
   };
 
   const handleExtractImages = () => {
-    const threadUrl = parseViperGirlsUrl(inputUrl);
+    setRejectedLines([]);
+    const threadUrl = findThreadUrl(inputUrl);
     if (!threadUrl) {
       toast({
         title: "Invalid URL",
-        description: "Please enter a valid ViperGirls thread URL",
+        description: "Please enter a valid ViperGirls, vBulletin or XenForo thread URL",
         variant: "destructive"
       });
       return;
@@ -182,6 +275,19 @@ export default function ImageDownloaderPage() {
   };
 
   const validImages = images.filter(img => img.isValid);
+
+  // Group images by the post they were published in, keeping thread order
+  const postGroups = images.reduce((groups, image) => {
+    const key = image.postId || `page-${image.pageNumber ?? 0}`;
+    let group = groups.find(g => g.key === key);
+    if (!group) {
+      group = { key, post: posts.find(p => p.postId === image.postId), pageNumber: image.pageNumber, images: [] };
+      groups.push(group);
+    }
+    group.images.push(image);
+    return groups;
+  }, [] as { key: string; post?: PostSummary; pageNumber?: number; images: ImageData[] }[]);
+
   const completedDownloads = downloads.filter(d => d.status === 'completed').length;
 
   return (
@@ -212,15 +318,18 @@ export default function ImageDownloaderPage() {
           <CardHeader className="pb-4">
             <CardTitle className="flex items-center space-x-2">
               <ExternalLink className="h-5 w-5 text-primary" />
-              <span>Enter Image URLs</span>
+              <span>Enter Thread or Image URLs</span>
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="space-y-2">
               <textarea
                 value={inputUrl}
-                onChange={(e) => setInputUrl(e.target.value)}
-                placeholder="Paste ViperGirls thread URL here (e.g., https://vipergirls.to/threads/thread-name.123456/)..."
+                onChange={(e) => {
+                  setInputUrl(e.target.value);
+                  setRejectedLines([]);
+                }}
+                placeholder={"Paste a ViperGirls thread or post URL (e.g., https://vipergirls.to/threads/thread-name.123456/)\nor ImageBam, Imgbox and direct image links, one per line..."}
                 className="w-full min-h-[120px] p-4 rounded-xl bg-input border border-border resize-none text-sm"
               />
               <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
@@ -232,12 +341,16 @@ export default function ImageDownloaderPage() {
                   <div className="w-2 h-2 rounded-full bg-info"></div>
                   <span>Will extract Imgbox images</span>
                 </span>
+                <span className="flex items-center space-x-1">
+                  <div className="w-2 h-2 rounded-full bg-emerald-600"></div>
+                  <span>Will extract Pixhost, IMX and Vipr images</span>
+                </span>
               </div>
             </div>
             
             <Button
               onClick={handleExtractImages}
-              disabled={!inputUrl.trim() || extractImagesMutation.isPending}
+              disabled={!inputUrl.trim() || parsedLines.threadUrls.length === 0 && parsedLines.links.length > 0 || extractImagesMutation.isPending}
               className="w-full touch-button gradient-bg font-semibold"
               size="lg"
             >
@@ -253,9 +366,53 @@ export default function ImageDownloaderPage() {
                 </>
               )}
             </Button>
+
+            {parsedLines.links.length > 0 && (
+              <Button
+                onClick={handleImportLinks}
+                disabled={importLinksMutation.isPending}
+                variant="outline"
+                className="w-full touch-button font-semibold"
+                size="lg"
+              >
+                {importLinksMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                    Importing Links...
+                  </>
+                ) : (
+                  <>
+                    <ListPlus className="mr-2 h-5 w-5" />
+                    Import {parsedLines.links.length} Links
+                  </>
+                )}
+              </Button>
+            )}
+
+            {unusableLines.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  <div className="font-medium mb-1">
+                    {unusableLines.length} {unusableLines.length === 1 ? 'line is' : 'lines are'} not used
+                  </div>
+                  <ul className="text-xs space-y-1">
+                    {unusableLines.map((unusable, index) => (
+                      <li key={index}>
+                        {unusable.line > 0 && <span className="font-mono">Line {unusable.line}: </span>}
+                        {unusable.reason} - <span className="break-all">{unusable.text}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
           </CardContent>
         </Card>
 
+        {/* Forum Login Section */}
+        <ForumAccount />
+
         {/* Page Summary Section */}
         {pageTexts.length > 0 && (
           <Card className="glass border-border/50">
@@ -324,92 +481,122 @@ export default function ImageDownloaderPage() {
                 </div>
               )}
             </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-                {images.map((image, index) => {
-                  const downloadStatus = downloads.find(d => d.url === image.url);
-                  return (
-                    <div key={index} className="relative">
-                      <Card className={`overflow-hidden transition-all hover:scale-105 ${
-                        image.isValid ? 'border-primary/20' : 'border-destructive/20'
-                      }`}>
-                        <div className="aspect-square relative bg-muted">
-                          {image.isValid ? (
-                            <img
-                              src={image.previewUrl}
-                              alt={image.fileName}
-                              className="w-full h-full object-cover"
-                              loading="lazy"
-                              onError={(e) => {
-                                const target = e.target as HTMLImageElement;
-                                target.src = `data:image/svg+xml,${encodeURIComponent(`
-                                  <svg xmlns="http://www.w3.org/2000/svg" width="200" height="200" viewBox="0 0 200 200">
-                                    <rect width="200" height="200" fill="#374151"/>
-                                    <text x="100" y="100" text-anchor="middle" fill="#9CA3AF" font-size="14">
-                                      No Preview
-                                    </text>
-                                  </svg>
-                                `)}`;
-                              }}
-                            />
-                          ) : (
-                            <div className="w-full h-full flex items-center justify-center">
-                              <AlertCircle className="h-8 w-8 text-destructive" />
-                            </div>
-                          )}
-                          
-                          {downloadStatus && (
-                            <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
-                              {downloadStatus.status === 'downloading' && (
-                                <Loader2 className="h-8 w-8 text-white animate-spin" />
-                              )}
-                              {downloadStatus.status === 'completed' && (
-                                <CheckCircle2 className="h-8 w-8 text-success" />
+            <CardContent className="space-y-6">
+              {postGroups.map(group => (
+                <div key={group.key} className="space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-semibold">
+                      {group.post?.author || 'Unknown author'}
+                    </span>
+                    {group.post?.postDate && (
+                      <span className="text-xs text-muted-foreground">{group.post.postDate}</span>
+                    )}
+                    {group.pageNumber && (
+                      <Badge variant="outline" className="text-xs">
+                        Page {group.pageNumber}
+                      </Badge>
+                    )}
+                    <Badge variant="secondary" className="text-xs">
+                      {group.images.length} images
+                    </Badge>
+                    {group.images.some(image => image.galleryId) && (
+                      <Badge variant="outline" className="text-xs">
+                        {new Set(group.images.map(image => image.galleryId).filter(Boolean)).size} galleries
+                      </Badge>
+                    )}
+                  </div>
+                  {group.post?.summary && (
+                    <p className="text-xs text-muted-foreground leading-relaxed">
+                      {group.post.summary}
+                    </p>
+                  )}
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {group.images.map((image, index) => {
+                      const downloadStatus = downloads.find(d => d.url === image.url);
+                      return (
+                        <div key={index} className="relative">
+                          <Card className={`overflow-hidden transition-all hover:scale-105 ${
+                            image.isValid ? 'border-primary/20' : 'border-destructive/20'
+                          }`}>
+                            <div className="aspect-square relative bg-muted">
+                              {image.isValid ? (
+                                <img
+                                  src={thumbnailUrl(image.previewUrl, image.hostingSite)}
+                                  alt={image.fileName}
+                                  className="w-full h-full object-cover"
+                                  loading="lazy"
+                                  onError={(e) => {
+                                    const target = e.target as HTMLImageElement;
+                                    target.src = `data:image/svg+xml,${encodeURIComponent(`
+                                      <svg xmlns="http://www.w3.org/2000/svg" width="200" height="200" viewBox="0 0 200 200">
+                                        <rect width="200" height="200" fill="#374151"/>
+                                        <text x="100" y="100" text-anchor="middle" fill="#9CA3AF" font-size="14">
+                                          No Preview
+                                        </text>
+                                      </svg>
+                                    `)}`;
+                                  }}
+                                />
+                              ) : (
+                                <div className="w-full h-full flex items-center justify-center">
+                                  <AlertCircle className="h-8 w-8 text-destructive" />
+                                </div>
                               )}
-                              {downloadStatus.status === 'error' && (
-                                <AlertCircle className="h-8 w-8 text-destructive" />
+                              
+                              {downloadStatus && (
+                                <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                                  {downloadStatus.status === 'downloading' && (
+                                    <Loader2 className="h-8 w-8 text-white animate-spin" />
+                                  )}
+                                  {downloadStatus.status === 'completed' && (
+                                    <CheckCircle2 className="h-8 w-8 text-success" />
+                                  )}
+                                  {downloadStatus.status === 'error' && (
+                                    <AlertCircle className="h-8 w-8 text-destructive" />
+                                  )}
+                                </div>
                               )}
                             </div>
-                          )}
-                        </div>
-                        
-                        <CardContent className="p-3">
-                          <div className="space-y-2">
-                            <div className="flex items-center justify-between">
-                              <div className="flex items-center space-x-1">
-                                <Badge 
-                                  variant={image.hostingSite === 'imagebam.com' ? 'default' : 'secondary'}
-                                  className="text-xs"
-                                >
-                                  {image.hostingSite}
-                                </Badge>
-                                {image.pageNumber && (
-                                  <Badge variant="outline" className="text-xs">
-                                    P{image.pageNumber}
-                                  </Badge>
-                                )}
+                            
+                            <CardContent className="p-3">
+                              <div className="space-y-2">
+                                <div className="flex items-center justify-between">
+                                  <div className="flex items-center space-x-1">
+                                    <Badge 
+                                      variant="secondary"
+                                      className={`text-xs ${hostBadgeClasses[image.hostingSite] || ''}`}
+                                    >
+                                      {image.hostingSite}
+                                    </Badge>
+                                    {image.pageNumber && (
+                                      <Badge variant="outline" className="text-xs">
+                                        P{image.pageNumber}
+                                      </Badge>
+                                    )}
+                                  </div>
+                                  {image.isValid && (
+                                    <Button
+                                      onClick={() => handleDownloadImage(image)}
+                                      disabled={downloadStatus?.status === 'downloading'}
+                                      size="sm"
+                                      className="touch-button h-8 px-3"
+                                    >
+                                      <Download className="h-3 w-3" />
+                                    </Button>
+                                  )}
+                                </div>
+                                <p className="text-xs text-muted-foreground truncate" title={image.fileName}>
+                                  {image.fileName}
+                                </p>
                               </div>
-                              {image.isValid && (
-                                <Button
-                                  onClick={() => handleDownloadImage(image)}
-                                  disabled={downloadStatus?.status === 'downloading'}
-                                  size="sm"
-                                  className="touch-button h-8 px-3"
-                                >
-                                  <Download className="h-3 w-3" />
-                                </Button>
-                              )}
-                            </div>
-                            <p className="text-xs text-muted-foreground truncate" title={image.fileName}>
-                              {image.fileName}
-                            </p>
-                          </div>
-                        </CardContent>
-                      </Card>
-                    </div>
-                  );
-                })}
-              </div>
+                            </CardContent>
+                          </Card>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
             </CardContent>
           </Card>
         )}
@@ -418,7 +605,7 @@ export default function ImageDownloaderPage() {
         <Alert>
           <AlertCircle className="h-4 w-4" />
           <AlertDescription>
-            This downloader works with ImageBam and Imgbox URLs. Simply paste the URLs and click "Extract Images" to preview and download them.
+            This downloader works with ImageBam, Imgbox, Pixhost, IMX, Vipr, ImageVenue and TurboImageHost URLs. Simply paste the URLs and click "Extract Images" to preview and download them.
             The app is optimized for mobile browsers and supports batch downloading.
           </AlertDescription>
         </Alert>
@@ -2,16 +2,111 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { downloadManager } from "./services/downloader";
-import { mobileDownloadManager } from "./services/mobile-download-manager";
-import { ViperGirlsScraper } from "./services/scraper";
+import { downloadQueue } from "./services/download-queue";
+import { recoverInterruptedSessions, interruptedSessionPolicy } from "./services/session-recovery";
+import { ImageDeduplicator, expandGalleries } from "./services/scraper";
+import { forumRegistry } from "./services/forums";
+import { hostRegistry } from "./services/hosts";
+import { forumConfig } from "./services/forum-config";
+import { forumSessions } from "./services/forum-sessions";
+import { requestScheduler } from "./services/request-scheduler";
+import { PUBLIC_WEB_REQUEST } from "./services/public-address";
+import { thumbnailCache } from "./services/thumbnail-cache";
+import { exportManifest } from "./services/session-export";
+import { sortImportedLinks } from "./services/link-import";
 
-import { insertDownloadSessionSchema, type DownloadRequest } from "@shared/schema";
+import { insertDownloadSessionSchema, exportFormats, type DownloadRequest, type ExportFormat, type LinkImportRequest, type LinkImportResult, type BatchDownloadRequest, type DownloadSession, type ParsedThreadUrl, type Thread } from "@shared/schema";
 import * as path from 'path';
 import * as fs from 'fs';
-import axios from 'axios';
+
+// Creates a pending session for one thread with the requested page range and options
+async function createThreadSession(downloadRequest: DownloadRequest, batchId?: number): Promise<DownloadSession> {
+  // Link the session to its thread row so the history can show the title; the download works without it
+  let thread: Thread | undefined;
+  try {
+    const forum = forumRegistry.forUrl(downloadRequest.threadUrl);
+    const { threadId, currentPage } = await forum.parseThreadUrl(downloadRequest.threadUrl);
+    await forum.getThreadInfo(threadId, currentPage);
+    thread = await storage.getThread(forum.origin, threadId);
+  } catch (threadError) {
+    console.error('Thread info error:', threadError);
+  }
+  
+  // Validate the request
+  const validatedData = insertDownloadSessionSchema.parse({
+    threadUrl: downloadRequest.threadUrl,
+    threadId: thread?.id,
+    threadTitle: thread?.title,
+    batchId,
+    fromPage: downloadRequest.fromPage,
+    toPage: downloadRequest.toPage === 'last' ? downloadRequest.fromPage : downloadRequest.toPage,
+    toLastPage: downloadRequest.toPage === 'last',
+    targetPostId: downloadRequest.postId,
+    scanOnly: downloadRequest.scanOnly === true,
+    priority: downloadRequest.priority ?? 0,
+    outputFormat: downloadRequest.outputFormat,
+    downloadLocation: downloadRequest.downloadLocation,
+    customDirectory: downloadRequest.customDirectory,
+    googleDriveFolder: downloadRequest.googleDriveFolder,
+    concurrentLimit: downloadRequest.concurrentLimit,
+    retryEnabled: downloadRequest.retryEnabled,
+    preserveFilenames: downloadRequest.preserveFilenames,
+    skipExisting: downloadRequest.skipExisting,
+    selectedImages: downloadRequest.selectedImages ? JSON.stringify(downloadRequest.selectedImages) : null,
+    status: 'pending',
+    totalImages: 0,
+    completedImages: 0,
+    failedImages: 0,
+  });
+
+  return await storage.createDownloadSession(validatedData);
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  const scraper = new ViperGirlsScraper();
+  // Forum origin and accepted mirror domains, so the client can recognise thread links
+  app.get("/api/forum", (_req, res) => {
+    res.json(forumConfig.toSettings(hostRegistry.hostingSites()));
+  });
+
+  // Member account for the configured forum; credentials are accepted but never sent back
+  app.get("/api/forum/account", async (_req, res) => {
+    try {
+      const forum = forumRegistry.forUrl(forumConfig.origin);
+      res.json(await forumSessions.getStatus(forum));
+    } catch (error) {
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to read forum account" 
+      });
+    }
+  });
+
+  app.put("/api/forum/account", async (req, res) => {
+    try {
+      const { username, password } = req.body;
+      if (!username || typeof username !== 'string' || !password || typeof password !== 'string') {
+        return res.status(400).json({ error: "Username and password are required" });
+      }
+
+      const forum = forumRegistry.forUrl(forumConfig.origin);
+      res.json(await forumSessions.saveAccount(forum, username, password));
+    } catch (error) {
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to save forum account" 
+      });
+    }
+  });
+
+  app.delete("/api/forum/account", async (_req, res) => {
+    try {
+      const forum = forumRegistry.forUrl(forumConfig.origin);
+      await forumSessions.removeAccount(forum);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to remove forum account" 
+      });
+    }
+  });
 
   // Parse thread URL and detect page
   app.post("/api/parse-url", async (req, res) => {
@@ -22,7 +117,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       console.log('Parsing URL:', url);
-      const parsed = await scraper.parseThreadUrl(url);
+      const forum = forumRegistry.forUrl(url);
+      const parsed: ParsedThreadUrl = await forum.parseThreadUrl(url);
+
+      // Page count and title need the page itself; the URL is still usable without them
+      try {
+        const info = await forum.getThreadInfo(parsed.threadId, parsed.currentPage);
+        parsed.totalPages = info.totalPages;
+        parsed.threadTitle = info.threadTitle;
+      } catch (infoError) {
+        console.error('Thread info error:', infoError);
+      }
+
       console.log('Parsed result:', parsed);
       res.json(parsed);
     } catch (error) {
@@ -33,31 +139,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Extract ImageBam and Imgbox images from ViperGirls thread
+  // Extract hosted images from ViperGirls thread
   app.post("/api/extract-images", async (req, res) => {
     try {
-      const { threadUrl, pageCount = 3 } = req.body;
+      const { threadUrl, pageCount = 3, refresh = false } = req.body;
       
       if (!threadUrl) {
         return res.status(400).json({ error: "Thread URL is required" });
       }
 
-      console.log(`Extracting ImageBam/Imgbox images from: ${threadUrl} (${pageCount} pages)`);
+      console.log(`Extracting hosted images from: ${threadUrl} (${pageCount} pages)`);
       
-      const { threadId, currentPage } = await scraper.parseThreadUrl(threadUrl);
+      const forum = forumRegistry.forUrl(threadUrl);
+      const { threadId, currentPage, postId } = await forum.parseThreadUrl(threadUrl);
       const startPage = currentPage || 1;
-      const allImages = [];
+      // A post link only needs the page the post is on
+      const scanPageCount = postId ? 1 : pageCount;
+      const allPosts = [];
       const pageTexts = [];
+      const deduplicator = new ImageDeduplicator();
       
       // Scan multiple pages for comprehensive image extraction
-      for (let page = startPage; page < startPage + pageCount; page++) {
+      for (let page = startPage; page < startPage + scanPageCount; page++) {
         try {
           console.log(`Scraping page ${page}...`);
-          const pageImages = await scraper.scrapeThreadPage(threadId, page);
-          allImages.push(...pageImages);
+          // Narrow to the linked post before de-duplicating, so its images are not dropped as repeats of an earlier post
+          const pagePosts = (await forum.scrapeThreadPosts(threadId, page, { refresh: refresh === true }))
+            .filter(post => !postId || post.postId === postId);
+          for (const post of pagePosts) {
+            post.images = deduplicator.filter(post.images);
+          }
+          allPosts.push(...pagePosts);
           
-          // Extract page text summary
-          const pageText = await scraper.extractPageText(threadId, page);
+          // Extract page text summary from the page just fetched
+          const pageText = await forum.extractPageText(threadId, page);
           if (pageText) {
             pageTexts.push({
               page,
@@ -72,19 +187,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Transform scraped images to match frontend interface
+      const allImages = allPosts.flatMap(post => post.images);
       const transformedImages = allImages.map((img, index) => ({
         url: img.hostingPage,
         previewUrl: img.previewUrl,
         hostingSite: img.hostingSite,
         fileName: `${img.hostingSite.replace('.com', '')}_${img.pageNumber}_${index + 1}.jpg`,
         isValid: true,
-        pageNumber: img.pageNumber
+        pageNumber: img.pageNumber,
+        postId: img.postId,
+        galleryId: img.galleryId
       }));
 
-      console.log(`Found ${transformedImages.length} ImageBam/Imgbox images across ${pageTexts.length} pages`);
+      // Only posts with images are interesting to the preview grid
+      const posts = allPosts
+        .filter(post => post.images.length > 0)
+        .map(post => ({
+          postId: post.postId,
+          author: post.author,
+          postDate: post.postDate,
+          pageNumber: post.pageNumber,
+          summary: post.postText.substring(0, 200) + (post.postText.length > 200 ? '...' : ''),
+          imageCount: post.images.length
+        }));
+
+      console.log(`Found ${transformedImages.length} hosted images across ${pageTexts.length} pages (${deduplicator.droppedCount} duplicates dropped)`);
       res.json({ 
         images: transformedImages, 
         totalImages: transformedImages.length,
+        duplicatesDropped: deduplicator.droppedCount,
+        posts,
         pageTexts,
         scannedPages: pageTexts.length
       });
@@ -96,7 +228,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Download individual image from ImageBam or Imgbox
+  // Download individual image from a supported image host
   app.post("/api/download-image", async (req, res) => {
     try {
       const { url, fileName, hostingSite } = req.body;
@@ -104,24 +236,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!url) {
         return res.status(400).json({ error: "Image URL is required" });
       }
+      // Only pages of known hosts are fetched; the browser downloads directly linked images itself
+      if (!hostRegistry.isImageHostingUrl(url)) {
+        return res.status(400).json({ error: "Not a supported image host" });
+      }
 
       console.log('Downloading image from:', url);
       
       // Get full resolution URL
-      const fullResUrl = await scraper.getFullResolutionUrl(url);
+      const fullResUrl = await hostRegistry.resolveFullImageUrl(url);
+      const downloadName = fileName || hostRegistry.filenameHint(url, fullResUrl) || 'image.jpg';
       
       // Download the image
-      const response = await axios.get(fullResUrl, {
+      const response = await requestScheduler.request({
+        url: fullResUrl,
         responseType: 'stream',
         headers: {
           'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
         },
-        timeout: 30000
+        timeout: 30000,
+        ...PUBLIC_WEB_REQUEST,
       });
 
       // Set appropriate headers for download
       res.setHeader('Content-Type', response.headers['content-type'] || 'image/jpeg');
-      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.setHeader('Content-Disposition', `attachment; filename="${downloadName}"`);
       
       // Pipe the image data to response
       response.data.pipe(res);
@@ -138,39 +277,160 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/downloads", async (req, res) => {
     try {
       const downloadRequest: DownloadRequest = req.body;
-      
-      // Validate the request
+
+      const session = await createThreadSession(downloadRequest);
+      res.json(await downloadQueue.enqueue(session.id));
+    } catch (error) {
+      res.status(400).json({ 
+        error: error instanceof Error ? error.message : "Failed to start download" 
+      });
+    }
+  });
+
+  // Queue several threads at once: one session per thread, all under a new batch
+  app.post("/api/batches", async (req, res) => {
+    try {
+      const { threads, ...options }: BatchDownloadRequest = req.body;
+      if (!Array.isArray(threads) || threads.length === 0) {
+        return res.status(400).json({ error: "No threads provided" });
+      }
+
+      // Check every thread before creating anything, so a typo does not leave half a batch behind
+      const problems: string[] = [];
+      for (let index = 0; index < threads.length; index++) {
+        const thread = threads[index];
+        const validRange = Number.isInteger(thread.fromPage) && thread.fromPage >= 1 &&
+          (thread.toPage === 'last' || (Number.isInteger(thread.toPage) && thread.toPage >= thread.fromPage));
+        if (!validRange) {
+          problems.push(`Thread ${index + 1}: invalid page range`);
+          continue;
+        }
+        try {
+          await forumRegistry.forUrl(thread.threadUrl).parseThreadUrl(thread.threadUrl);
+        } catch (error) {
+          problems.push(`Thread ${index + 1}: ${error instanceof Error ? error.message : "invalid thread URL"}`);
+        }
+      }
+      if (problems.length > 0) {
+        return res.status(400).json({ error: problems.join('; ') });
+      }
+
+      const batch = await storage.createDownloadBatch();
+      const sessions: DownloadSession[] = [];
+      for (const thread of threads) {
+        const session = await createThreadSession({ ...options, ...thread }, batch.id);
+        sessions.push(await downloadQueue.enqueue(session.id));
+      }
+
+      res.json({ batch, sessions });
+    } catch (error) {
+      res.status(400).json({ 
+        error: error instanceof Error ? error.message : "Failed to start batch" 
+      });
+    }
+  });
+
+  // Get batch progress, summed over its threads
+  app.get("/api/batches/:id/progress", async (req, res) => {
+    try {
+      const batchId = parseInt(req.params.id, 10);
+      if (isNaN(batchId)) {
+        return res.status(400).json({ error: "Invalid batch ID" });
+      }
+
+      const progress = await downloadManager.getBatchProgress(batchId);
+      res.json(progress);
+    } catch (error) {
+      res.status(404).json({ 
+        error: error instanceof Error ? error.message : "Progress not found" 
+      });
+    }
+  });
+
+  // Cancel every unfinished thread in the batch
+  app.post("/api/batches/:id/cancel", async (req, res) => {
+    try {
+      const batchId = parseInt(req.params.id, 10);
+      if (isNaN(batchId)) {
+        return res.status(400).json({ error: "Invalid batch ID" });
+      }
+
+      await downloadManager.cancelBatch(batchId);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(400).json({ 
+        error: error instanceof Error ? error.message : "Failed to cancel batch" 
+      });
+    }
+  });
+
+  // Create a download session from pasted image host links, resolved and downloaded like a thread's images
+  app.post("/api/import-links", async (req, res) => {
+    try {
+      const { links, scanOnly, priority }: LinkImportRequest = req.body;
+      if (!Array.isArray(links) || links.length === 0) {
+        return res.status(400).json({ error: "No links provided" });
+      }
+
+      const { images, rejected } = sortImportedLinks(links);
+
+      // Galleries only list their images now, so both the count and duplicates across galleries come after expanding
+      const selectedImages = new ImageDeduplicator().filter(await expandGalleries(images));
+      if (selectedImages.length === 0) {
+        return res.status(400).json({ error: "None of the links could be used", rejected });
+      }
+
       const validatedData = insertDownloadSessionSchema.parse({
-        threadUrl: downloadRequest.threadUrl,
-        fromPage: downloadRequest.fromPage,
-        toPage: downloadRequest.toPage,
-        outputFormat: downloadRequest.outputFormat,
-        downloadLocation: downloadRequest.downloadLocation,
-        customDirectory: downloadRequest.customDirectory,
-        googleDriveFolder: downloadRequest.googleDriveFolder,
-        concurrentLimit: downloadRequest.concurrentLimit,
-        retryEnabled: downloadRequest.retryEnabled,
-        preserveFilenames: downloadRequest.preserveFilenames,
-        skipExisting: downloadRequest.skipExisting,
-        selectedImages: downloadRequest.selectedImages ? JSON.stringify(downloadRequest.selectedImages) : null,
+        threadUrl: null,
+        threadTitle: `Imported links (${selectedImages.length})`,
+        fromPage: 1,
+        toPage: 1,
+        scanOnly: scanOnly === true,
+        priority: priority ?? 0,
+        selectedImages: JSON.stringify(selectedImages),
         status: 'pending',
         totalImages: 0,
         completedImages: 0,
         failedImages: 0,
       });
 
-      // Create download session
-      const session = await storage.createDownloadSession(validatedData);
-      
-      // Start download in background
-      downloadManager.startDownload(session.id).catch(error => {
-        console.error(`Download ${session.id} failed:`, error);
+      const session = await downloadQueue.enqueue((await storage.createDownloadSession(validatedData)).id);
+      const result: LinkImportResult = { session, imageCount: selectedImages.length, rejected };
+      res.json(result);
+    } catch (error) {
+      res.status(400).json({ 
+        error: error instanceof Error ? error.message : "Failed to import links" 
+      });
+    }
+  });
+
+  // Sessions downloading now and waiting in the queue
+  app.get("/api/queue", async (_req, res) => {
+    try {
+      res.json(await downloadQueue.getState());
+    } catch (error) {
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to read queue" 
       });
+    }
+  });
+
+  // Change the priority of a session that is still waiting
+  app.patch("/api/queue/:id", async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id, 10);
+      if (isNaN(sessionId)) {
+        return res.status(400).json({ error: "Invalid session ID" });
+      }
+      const { priority } = req.body;
+      if (!Number.isInteger(priority)) {
+        return res.status(400).json({ error: "Priority must be a whole number" });
+      }
 
-      res.json(session);
+      res.json(await downloadQueue.setPriority(sessionId, priority));
     } catch (error) {
       res.status(400).json({ 
-        error: error instanceof Error ? error.message : "Failed to start download" 
+        error: error instanceof Error ? error.message : "Failed to change priority" 
       });
     }
   });
@@ -209,6 +469,106 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Pause download, aborting the transfers in flight
+  app.post("/api/downloads/:id/pause", async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id, 10);
+      if (isNaN(sessionId)) {
+        return res.status(400).json({ error: "Invalid session ID" });
+      }
+
+      res.json(await downloadManager.pauseDownload(sessionId));
+    } catch (error) {
+      res.status(400).json({ 
+        error: error instanceof Error ? error.message : "Failed to pause download" 
+      });
+    }
+  });
+
+  // Resume a paused or interrupted download with the images it has left, in the same session directory
+  app.post("/api/downloads/:id/resume", async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id, 10);
+      if (isNaN(sessionId)) {
+        return res.status(400).json({ error: "Invalid session ID" });
+      }
+
+      const session = await downloadManager.resumeDownload(sessionId);
+      res.json(await downloadQueue.enqueue(session.id));
+    } catch (error) {
+      res.status(400).json({ 
+        error: error instanceof Error ? error.message : "Failed to resume download" 
+      });
+    }
+  });
+
+  // Download the images a scan-only session listed, without scraping the thread again
+  app.post("/api/downloads/:id/promote", async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id, 10);
+      if (isNaN(sessionId)) {
+        return res.status(400).json({ error: "Invalid session ID" });
+      }
+
+      const session = await downloadManager.promoteScan(sessionId);
+      res.json(await downloadQueue.enqueue(session.id));
+    } catch (error) {
+      res.status(400).json({ 
+        error: error instanceof Error ? error.message : "Failed to start download" 
+      });
+    }
+  });
+
+  // Images a session listed, with their resolved URLs and sizes
+  app.get("/api/downloads/:id/manifest", async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id, 10);
+      if (isNaN(sessionId)) {
+        return res.status(400).json({ error: "Invalid session ID" });
+      }
+
+      const session = await storage.getDownloadSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      res.json(await downloadManager.getManifest(sessionId));
+    } catch (error) {
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to read manifest" 
+      });
+    }
+  });
+
+  // Session link list as a file: plain URLs, JSON, CSV or an aria2c input file
+  app.get("/api/downloads/:id/export", async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id, 10);
+      if (isNaN(sessionId)) {
+        return res.status(400).json({ error: "Invalid session ID" });
+      }
+
+      const format = (req.query.format || 'txt') as ExportFormat;
+      if (!exportFormats.includes(format)) {
+        return res.status(400).json({ error: `Format must be one of: ${exportFormats.join(', ')}` });
+      }
+
+      const session = await storage.getDownloadSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      const exported = exportManifest(sessionId, await downloadManager.getManifest(sessionId), format);
+      res.setHeader('Content-Type', exported.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${exported.fileName}"`);
+      res.send(exported.body);
+    } catch (error) {
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to export session" 
+      });
+    }
+  });
+
   // Get all download sessions (history)
   app.get("/api/downloads", async (req, res) => {
     try {
@@ -267,6 +627,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
 
+  // Thumbnail proxy: previews load from here so hosts' referer checks and mixed content do not break them
+  app.get("/api/thumb", async (req, res) => {
+    try {
+      const url = req.query.url;
+      if (!url || typeof url !== 'string') {
+        return res.status(400).json({ error: "Thumbnail URL is required" });
+      }
+      if (!hostRegistry.isThumbnailUrl(url)) {
+        return res.status(400).json({ error: "Thumbnails are only fetched from supported image hosts" });
+      }
+
+      const thumbnail = await thumbnailCache.get(url);
+      res.setHeader('Content-Type', thumbnail.contentType);
+      // A thumbnail URL always shows the same image
+      res.setHeader('Cache-Control', 'public, max-age=604800, immutable');
+      res.sendFile(thumbnail.filePath);
+    } catch (error) {
+      res.status(502).json({ 
+        error: error instanceof Error ? error.message : "Failed to fetch thumbnail" 
+      });
+    }
+  });
+
   // Placeholder image endpoint
   app.get("/api/placeholder/:width/:height", (req, res) => {
     const { width, height } = req.params;
@@ -281,6 +664,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.send(svg);
   });
 
+  // Sessions cut off by the last shutdown are repaired first, then everything still queued starts again
+  recoverInterruptedSessions(interruptedSessionPolicy)
+    .catch(error => console.error('Session recovery failed:', error))
+    .finally(() => downloadQueue.resume());
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,61 @@
+// Minimal cookie store for a single forum: name/value pairs from Set-Cookie headers, persisted as JSON
+export class CookieJar {
+  private cookies: Map<string, string>;
+
+  constructor(cookies: Record<string, string> = {}) {
+    this.cookies = new Map(Object.entries(cookies));
+  }
+
+  static fromJSON(json: string | null | undefined): CookieJar {
+    if (!json) return new CookieJar();
+    try {
+      return new CookieJar(JSON.parse(json));
+    } catch {
+      return new CookieJar();
+    }
+  }
+
+  toJSON(): string {
+    return JSON.stringify(Object.fromEntries(this.cookies));
+  }
+
+  // Takes the raw Set-Cookie headers of a response; expired or "deleted" cookies are dropped
+  store(setCookieHeaders: string[] | undefined): void {
+    for (const header of setCookieHeaders || []) {
+      const [pair, ...attributes] = header.split(';');
+      const separator = pair.indexOf('=');
+      if (separator <= 0) continue;
+
+      const name = pair.substring(0, separator).trim();
+      const value = pair.substring(separator + 1).trim();
+      const expired = attributes.some(attribute => {
+        const [key, attributeValue] = attribute.split('=').map(part => part.trim());
+        if (/^max-age$/i.test(key)) return parseInt(attributeValue, 10) <= 0;
+        if (/^expires$/i.test(key)) return new Date(attributeValue).getTime() < Date.now();
+        return false;
+      });
+
+      if (expired || value === '' || value === 'deleted') {
+        this.cookies.delete(name);
+      } else {
+        this.cookies.set(name, value);
+      }
+    }
+  }
+
+  get(name: string): string | undefined {
+    return this.cookies.get(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.cookies.keys());
+  }
+
+  get isEmpty(): boolean {
+    return this.cookies.size === 0;
+  }
+
+  header(): string {
+    return Array.from(this.cookies, ([name, value]) => `${name}=${value}`).join('; ');
+  }
+}
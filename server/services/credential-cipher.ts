@@ -0,0 +1,40 @@
+import * as crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const PREFIX = 'v1';
+
+let cachedKey: Buffer | undefined;
+
+// FORUM_CREDENTIALS_KEY is the secret stored forum passwords are encrypted with; without it no password is kept
+function credentialKey(): Buffer {
+  if (!cachedKey) {
+    const secret = process.env.FORUM_CREDENTIALS_KEY;
+    if (!secret) {
+      throw new Error('FORUM_CREDENTIALS_KEY must be set to store forum passwords');
+    }
+    cachedKey = crypto.scryptSync(secret, 'vripper-forum-credentials', 32);
+  }
+  return cachedKey;
+}
+
+// Stored as v1:<iv>:<auth tag>:<ciphertext>, all base64
+export function encryptCredential(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, credentialKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [PREFIX, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+export function decryptCredential(stored: string): string {
+  const [prefix, iv, authTag, ciphertext] = stored.split(':');
+  if (prefix !== PREFIX || !ciphertext) {
+    throw new Error('Stored forum password is not in a known format, save the account again');
+  }
+  const decipher = crypto.createDecipheriv(ALGORITHM, credentialKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error('Stored forum password cannot be decrypted; FORUM_CREDENTIALS_KEY has changed, save the account again');
+  }
+}
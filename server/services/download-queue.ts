@@ -0,0 +1,103 @@
+import { storage } from '../storage';
+import { downloadManager } from './downloader';
+import type { DownloadSession, QueueState } from '@shared/schema';
+
+const DEFAULT_CONCURRENCY = 2;
+
+// Runs queued sessions a few at a time, highest priority first; the queue itself lives in the database
+export class DownloadQueue {
+  private running: Set<number>;
+  private pumping: boolean;
+  private pumpAgain: boolean;
+  private concurrency: number;
+
+  constructor(concurrency: number = DEFAULT_CONCURRENCY) {
+    this.running = new Set();
+    this.pumping = false;
+    this.pumpAgain = false;
+    this.concurrency = Math.max(1, concurrency);
+  }
+
+  // Only sessions waiting to start are queued, in one conditional update so a pause or cancel in between is not undone
+  async enqueue(sessionId: number, fromStatuses: string[] = ['pending']): Promise<DownloadSession> {
+    const session = await storage.transitionDownloadSession(sessionId, fromStatuses, { status: 'queued' });
+    if (!session) {
+      throw await this.refusal(sessionId, `Only ${fromStatuses.join(' or ')} sessions can be queued`);
+    }
+
+    this.pump();
+    return session;
+  }
+
+  async setPriority(sessionId: number, priority: number): Promise<DownloadSession> {
+    // Conditional like queueing, so a session the queue starts in the meantime is left alone
+    const session = await storage.transitionDownloadSession(sessionId, ['queued'], { priority });
+    if (!session) {
+      throw await this.refusal(sessionId, 'Only queued sessions can be reprioritised');
+    }
+    return session;
+  }
+
+  async getState(): Promise<QueueState> {
+    const queued = await storage.getQueuedSessions();
+    const active = await Promise.all(Array.from(this.running).map(id => storage.getDownloadSession(id)));
+
+    return {
+      concurrency: this.concurrency,
+      active: active.filter((session): session is DownloadSession => !!session),
+      queued: queued.map((session, index) => ({ ...session, position: index + 1 })),
+    };
+  }
+
+  // Read only after a conditional update changed nothing, to tell a missing session from one in another state
+  private async refusal(sessionId: number, wrongStatusMessage: string): Promise<Error> {
+    const exists = await storage.getDownloadSession(sessionId);
+    return new Error(exists ? wrongStatusMessage : 'Download session not found');
+  }
+
+  // Picks up sessions left queued by the previous run of the server
+  resume(): void {
+    this.pump();
+  }
+
+  // Starts queued sessions until the budget is used up; calls that arrive mid-pump make it look again
+  private async pump(): Promise<void> {
+    if (this.pumping) {
+      this.pumpAgain = true;
+      return;
+    }
+    this.pumping = true;
+
+    try {
+      do {
+        this.pumpAgain = false;
+        const queued = await storage.getQueuedSessions();
+        for (const session of queued) {
+          if (this.running.size >= this.concurrency) break;
+          if (this.running.has(session.id)) continue;
+          this.run(session.id);
+        }
+      } while (this.pumpAgain);
+    } catch (error) {
+      console.error('Download queue error:', error);
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  private run(sessionId: number): void {
+    this.running.add(sessionId);
+    downloadManager.startDownload(sessionId)
+      .catch(error => {
+        console.error(`Download ${sessionId} failed:`, error);
+      })
+      .finally(() => {
+        this.running.delete(sessionId);
+        this.pump();
+      });
+  }
+}
+
+// DOWNLOAD_QUEUE_CONCURRENCY is how many sessions may download at the same time across the server
+const configuredConcurrency = parseInt(process.env.DOWNLOAD_QUEUE_CONCURRENCY || '', 10);
+export const downloadQueue = new DownloadQueue(isNaN(configuredConcurrency) ? DEFAULT_CONCURRENCY : configuredConcurrency);
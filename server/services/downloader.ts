@@ -1,24 +1,29 @@
-import axios from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
-import { pipeline } from 'stream';
-import { promisify } from 'util';
 import JSZip from 'jszip';
-import { ViperGirlsScraper, type ScrapedImage } from './scraper';
+import { ImageDeduplicator, type ScrapedImage } from './scraper';
+import { forumRegistry } from './forums';
+import { hostRegistry } from './hosts';
+import { requestScheduler } from './request-scheduler';
+import { transferBudget } from './transfer-budget';
+import { PUBLIC_WEB_REQUEST } from './public-address';
+import { downloadToFile, partFilePath, PART_FILE_EXTENSION } from './file-transfer';
+import { IMAGE_RETRY_POLICY, isRetryableError, retryDelay, waitForRetry } from './retry-policy';
 // Google Drive service removed
 import { storage } from '../storage';
-import type { DownloadSession, DownloadedImage, DownloadProgress } from '@shared/schema';
+import type { DownloadSession, DownloadedImage, DownloadProgress, BatchProgress, ManifestEntry } from '@shared/schema';
 
-const pipelineAsync = promisify(pipeline);
+// Why a running session was stopped, carried as the AbortController's reason
+type StopReason = 'paused' | 'cancelled';
 
 export class DownloadManager {
-  private scraper: ViperGirlsScraper;
   private activeDownloads: Map<number, Promise<void>>;
+  private abortControllers: Map<number, AbortController>;
   private downloadDir: string;
 
   constructor() {
-    this.scraper = new ViperGirlsScraper();
     this.activeDownloads = new Map();
+    this.abortControllers = new Map();
     this.downloadDir = path.join(process.cwd(), 'downloads');
     
     // Ensure downloads directory exists
@@ -45,85 +50,80 @@ export class DownloadManager {
     return sessionDir;
   }
 
-  async startDownload(sessionId: number): Promise<void> {
-    const session = await storage.getDownloadSession(sessionId);
-    if (!session) {
-      throw new Error('Download session not found');
-    }
+  private getImageFilePath(session: DownloadSession, image: DownloadedImage): string {
+    // Page subdirectory, with one folder per post since that is how sets are published, and one per expanded gallery
+    const pageDir = path.join(this.getSessionDownloadDir(session), `page_${image.pageNumber}`);
+    const postDir = image.postId ? path.join(pageDir, `post_${image.postId}`) : pageDir;
+    const imageDir = image.galleryId ? path.join(postDir, `gallery_${image.galleryId}`) : postDir;
+    return path.join(imageDir, image.filename);
+  }
 
+  async startDownload(sessionId: number): Promise<void> {
     // Prevent multiple downloads of the same session
     if (this.activeDownloads.has(sessionId)) {
       throw new Error('Download already in progress');
     }
 
-    const downloadPromise = this.executeDownload(session);
+    // Registered before the session is claimed, so a pause arriving meanwhile aborts this run rather than racing it
+    const controller = new AbortController();
+    const downloadPromise = this.executeDownload(sessionId, controller.signal);
     this.activeDownloads.set(sessionId, downloadPromise);
+    this.abortControllers.set(sessionId, controller);
 
     try {
       await downloadPromise;
     } finally {
       this.activeDownloads.delete(sessionId);
+      this.abortControllers.delete(sessionId);
     }
   }
 
-  private async executeDownload(session: DownloadSession): Promise<void> {
-    try {
-      await storage.updateDownloadSession(session.id, { 
-        status: 'active',
-        startedAt: new Date() 
-      });
+  private async executeDownload(sessionId: number, signal: AbortSignal): Promise<void> {
+    // The queue picked the session a moment ago; a pause or cancel that landed since then wins
+    const session = await storage.transitionDownloadSession(sessionId, ['queued'], {
+      status: 'active',
+      startedAt: new Date()
+    });
+    if (!session) {
+      console.log(`Session ${sessionId} is no longer queued, not starting it`);
+      return;
+    }
 
-      let allImages: ScrapedImage[] = [];
+    try {
+      if (signal.aborted) {
+        await this.markStopped(session.id, signal);
+        return;
+      }
 
-      // Check if we have selected images in the session (stored as JSON string)
-      if (session.selectedImages) {
-        try {
-          const selectedImages = JSON.parse(session.selectedImages);
-          if (Array.isArray(selectedImages)) {
-            console.log('Using pre-selected images:', selectedImages.length);
-            allImages = selectedImages;
-          }
-        } catch (error) {
-          console.error('Failed to parse selected images:', error);
-        }
+      // A promoted scan already has its image records, so the thread is not scraped again
+      const existingImages = await storage.getDownloadedImagesForSession(session.id);
+      if (existingImages.length === 0) {
+        await this.collectImages(session);
       }
-      
-      if (allImages.length === 0) {
-        // Stage 1: Parse thread URL and extract basic info
-        const { threadId } = await this.scraper.parseThreadUrl(session.threadUrl);
-        
-        // Stage 2: Scrape all pages to collect image links
-        console.log(`Scraping pages ${session.fromPage} to ${session.toPage}...`);
-        
-        for (let page = session.fromPage; page <= session.toPage; page++) {
-          console.log(`Scraping page ${page}...`);
-          const pageImages = await this.scraper.scrapeThreadPage(threadId, page);
-          console.log(`Found ${pageImages.length} images on page ${page}`);
-          allImages.push(...pageImages);
-        }
+      if (signal.aborted) {
+        await this.markStopped(session.id, signal);
+        return;
       }
 
-      console.log(`Total images to download: ${allImages.length}`);
-      
-      await storage.updateDownloadSession(session.id, { 
-        totalImages: allImages.length 
-      });
-
-      // Stage 3: Create download records for all images
-      for (const scrapedImage of allImages) {
-        await storage.createDownloadedImage({
-          sessionId: session.id,
-          pageNumber: scrapedImage.pageNumber,
-          originalUrl: scrapedImage.hostingPage,
-          hostingSite: scrapedImage.hostingSite,
-          filename: this.generateFilename(scrapedImage),
-          status: 'pending',
-          progress: 0,
+      if (session.scanOnly) {
+        await this.scanImages(session, signal);
+        if (signal.aborted) {
+          await this.markStopped(session.id, signal);
+          return;
+        }
+        await storage.updateDownloadSession(session.id, {
+          status: 'scanned',
+          completedAt: new Date(),
         });
+        return;
       }
 
       // Stage 4: Download images with concurrency control
-      await this.downloadImagesWithConcurrency(session);
+      await this.downloadImagesWithConcurrency(session, signal);
+      if (signal.aborted) {
+        await this.markStopped(session.id, signal);
+        return;
+      }
 
       // Stage 5: Create ZIP archive if requested
       if (session.outputFormat === 'zip') {
@@ -136,6 +136,10 @@ export class DownloadManager {
       });
 
     } catch (error) {
+      if (signal.aborted) {
+        await this.markStopped(session.id, signal);
+        return;
+      }
       await storage.updateDownloadSession(session.id, {
         status: 'failed',
         errorMessage: error instanceof Error ? error.message : 'Unknown error',
@@ -145,140 +149,309 @@ export class DownloadManager {
     }
   }
 
-  private async downloadImagesWithConcurrency(session: DownloadSession): Promise<void> {
-    const images = await storage.getDownloadedImagesForSession(session.id);
-    const pendingImages = images.filter(img => img.status === 'pending');
-    
-    // Create a pool of concurrent downloads
-    const concurrentLimit = session.concurrentLimit || 3;
-    const downloadPromises: Promise<void>[] = [];
+  // Stages 1-3: list the session's images, from the preview selection or by scraping the page range, and record them
+  private async collectImages(session: DownloadSession): Promise<void> {
+    let allImages: ScrapedImage[] = [];
+
+    // Check if we have selected images in the session (stored as JSON string)
+    if (session.selectedImages) {
+      try {
+        const selectedImages = JSON.parse(session.selectedImages);
+        if (Array.isArray(selectedImages)) {
+          console.log('Using pre-selected images:', selectedImages.length);
+          allImages = selectedImages;
+        }
+      } catch (error) {
+        console.error('Failed to parse selected images:', error);
+      }
+    }
     
-    let activeDownloads = 0;
-    let imageIndex = 0;
-
-    while (imageIndex < pendingImages.length || activeDownloads > 0) {
-      // Start new downloads up to the concurrent limit
-      while (activeDownloads < concurrentLimit && imageIndex < pendingImages.length) {
-        const image = pendingImages[imageIndex];
-        imageIndex++;
-        activeDownloads++;
-
-        const downloadPromise = this.downloadSingleImage(session, image)
-          .finally(() => {
-            activeDownloads--;
-          });
-        
-        downloadPromises.push(downloadPromise);
+    if (allImages.length === 0) {
+      // Stage 1: Parse thread URL and extract basic info
+      if (!session.threadUrl) {
+        throw new Error('Session has neither a thread nor a list of images');
+      }
+      const forum = forumRegistry.forUrl(session.threadUrl);
+      const { threadId, currentPage } = await forum.parseThreadUrl(session.threadUrl);
+
+      // "To last page" ranges are resolved against the thread as it is now
+      let fromPage = session.fromPage;
+      let toPage = session.toPage;
+      if (session.targetPostId) {
+        // A single post only needs the page it was linked on
+        fromPage = toPage = currentPage || session.fromPage;
+        await storage.updateDownloadSession(session.id, { fromPage, toPage });
+      } else if (session.toLastPage) {
+        const { totalPages } = await forum.getThreadInfo(threadId);
+        toPage = Math.max(session.fromPage, totalPages);
+        await storage.updateDownloadSession(session.id, { toPage });
+      }
+      
+      // Stage 2: Scrape all pages to collect image links
+      console.log(`Scraping pages ${fromPage} to ${toPage}...`);
+      
+      const deduplicator = new ImageDeduplicator();
+      for (let page = fromPage; page <= toPage; page++) {
+        console.log(`Scraping page ${page}...`);
+        // Narrow to the target post first, so its images are not dropped as repeats of an earlier post or quote
+        const postImages = (await forum.scrapeThreadPage(threadId, page))
+          .filter(image => !session.targetPostId || image.postId === session.targetPostId);
+        const pageImages = deduplicator.filter(postImages);
+        console.log(`Found ${pageImages.length} images on page ${page}`);
+        allImages.push(...pageImages);
       }
+      console.log(`Dropped ${deduplicator.droppedCount} duplicate images`);
 
-      // Wait for at least one download to complete before starting new ones
-      if (activeDownloads >= concurrentLimit) {
-        await Promise.race(downloadPromises.filter(p => p !== undefined));
+      if (session.targetPostId && allImages.length === 0) {
+        throw new Error(`Post ${session.targetPostId} not found on page ${fromPage}`);
       }
     }
 
-    // Wait for all downloads to complete
-    await Promise.allSettled(downloadPromises);
+    console.log(`Total images to download: ${allImages.length}`);
+    
+    await storage.updateDownloadSession(session.id, { 
+      totalImages: allImages.length 
+    });
+
+    // Stage 3: Create download records for all images
+    for (const scrapedImage of allImages) {
+      await storage.createDownloadedImage({
+        sessionId: session.id,
+        pageNumber: scrapedImage.pageNumber,
+        postId: scrapedImage.postId ?? null,
+        galleryId: scrapedImage.galleryId ?? null,
+        originalUrl: scrapedImage.hostingPage,
+        hostingSite: scrapedImage.hostingSite,
+        filename: this.generateFilename(scrapedImage),
+        status: 'pending',
+        progress: 0,
+      });
+    }
   }
 
-  private async downloadSingleImage(session: DownloadSession, image: DownloadedImage): Promise<void> {
-    try {
-      await storage.updateDownloadedImage(image.id, { status: 'downloading' });
-
-      // Get full resolution URL
-      const fullImageUrl = await this.scraper.getFullResolutionUrl(image.originalUrl);
-      
-      // Get session directory
-      const sessionDir = this.getSessionDownloadDir(session);
+  private async markStopped(sessionId: number, signal: AbortSignal): Promise<void> {
+    const reason: StopReason = signal.reason === 'cancelled' ? 'cancelled' : 'paused';
+    await storage.updateDownloadSession(sessionId, {
+      status: reason,
+      completedAt: reason === 'cancelled' ? new Date() : null,
+    });
+  }
 
-      // Create page subdirectory
-      const pageDir = path.join(sessionDir, `page_${image.pageNumber}`);
-      if (!fs.existsSync(pageDir)) {
-        fs.mkdirSync(pageDir, { recursive: true });
-      }
+  private async downloadImagesWithConcurrency(session: DownloadSession, signal: AbortSignal): Promise<void> {
+    const images = await storage.getDownloadedImagesForSession(session.id);
+    const pendingImages = images.filter(img => img.status === 'pending');
+    await this.runWithConcurrency(pendingImages, session.concurrentLimit || 3, signal, image => this.downloadSingleImage(session, image, signal));
+  }
 
-      const filePath = path.join(pageDir, image.filename);
+  // Resolves every image's full resolution URL and asks the host for its size, leaving the files for a later download
+  private async scanImages(session: DownloadSession, signal: AbortSignal): Promise<void> {
+    const images = await storage.getDownloadedImagesForSession(session.id);
+    const pendingImages = images.filter(img => img.status === 'pending');
+    await this.runWithConcurrency(pendingImages, session.concurrentLimit || 3, signal, image => this.scanSingleImage(session, image, signal));
 
-      // Skip if file already exists and skipExisting is enabled
-      if (session.skipExisting && fs.existsSync(filePath)) {
-        await storage.updateDownloadedImage(image.id, { 
-          status: 'completed',
-          progress: 100 
-        });
-        return;
-      }
+    const sessionImages = await storage.getDownloadedImagesForSession(session.id);
+    const failedCount = sessionImages.filter(img => img.status === 'failed').length;
+    await storage.updateDownloadSession(session.id, { 
+      failedImages: failedCount 
+    });
+  }
 
-      // Download the image
-      const response = await axios({
-        method: 'GET',
-        url: fullImageUrl,
-        responseType: 'stream',
-        timeout: 60000,
-      });
+  private async runWithConcurrency<T>(items: T[], concurrentLimit: number, signal: AbortSignal, worker: (item: T) => Promise<void>): Promise<void> {
+    // Only in-flight workers are raced, so a finished one never wakes the loop twice
+    const running = new Set<Promise<void>>();
 
-      const fileSize = parseInt(response.headers['content-length'] || '0', 10);
-      let downloadedBytes = 0;
+    for (const item of items) {
+      // A paused or cancelled session starts nothing new; the items left stay pending
+      if (signal.aborted) break;
+      // Every transfer also takes a slot from the server-wide budget shared with the other running sessions
+      if (!(await transferBudget.acquire(signal))) break;
 
-      // Track download progress
-      response.data.on('data', (chunk: Buffer) => {
-        downloadedBytes += chunk.length;
-        const progress = fileSize > 0 ? Math.round((downloadedBytes / fileSize) * 100) : 0;
-        storage.updateDownloadedImage(image.id, { progress });
+      const workerPromise: Promise<void> = worker(item).finally(() => {
+        transferBudget.release();
+        running.delete(workerPromise);
       });
+      running.add(workerPromise);
 
-      // Save file locally first
-      const writeStream = fs.createWriteStream(filePath);
-      await pipelineAsync(response.data, writeStream);
-
-      // If Google Drive upload is enabled, upload the file
-      if (session.downloadLocation === 'google-drive' && session.googleDriveFolder) {
-        try {
-          // Upload to Google Drive
-          await googleDriveService.uploadFile(filePath, image.filename, session.googleDriveFolder);
-          
-          // Delete local file after successful upload (optional)
-          // fs.unlinkSync(filePath);
-        } catch (error) {
-          console.error('Failed to upload to Google Drive:', error);
-          // Continue with local storage if Google Drive fails
-        }
+      // Wait for at least one worker to finish before starting new ones
+      if (running.size >= concurrentLimit) {
+        await Promise.race(running);
       }
+    }
 
+    // Wait for all workers to complete
+    await Promise.allSettled(running);
+  }
+
+  private async scanSingleImage(session: DownloadSession, image: DownloadedImage, signal: AbortSignal): Promise<void> {
+    try {
+      const fullImageUrl = await this.resolveImageUrl(session, image, signal);
+      const fileSize = await this.fetchFileSize(fullImageUrl, signal);
+      if (fileSize !== undefined) {
+        await storage.updateDownloadedImage(image.id, { fileSize });
+      }
+    } catch (error) {
+      // A stopped scan leaves the image pending for the next run
+      if (signal.aborted) return;
       await storage.updateDownloadedImage(image.id, {
-        status: 'completed',
-        progress: 100,
-        fileSize: downloadedBytes,
+        status: 'failed',
+        errorMessage: error instanceof Error ? error.message : 'Scan failed',
       });
+    }
+  }
+
+  // Full resolution URL of an image, resolved once and kept with the image record
+  private async resolveImageUrl(session: DownloadSession, image: DownloadedImage, signal?: AbortSignal): Promise<string> {
+    if (image.resolvedUrl) {
+      return image.resolvedUrl;
+    }
+
+    const fullImageUrl = await hostRegistry.resolveFullImageUrl(image.originalUrl, signal);
+    const updates: Partial<DownloadedImage> = { resolvedUrl: fullImageUrl };
+    image.resolvedUrl = fullImageUrl;
+
+    // The real name is often only known once the full image URL is resolved
+    if (session.preserveFilenames) {
+      const hintedFilename = hostRegistry.filenameHint(image.originalUrl, fullImageUrl);
+      if (hintedFilename && hintedFilename !== image.filename) {
+        image.filename = hintedFilename;
+        updates.filename = hintedFilename;
+      }
+    }
+
+    await storage.updateDownloadedImage(image.id, updates);
+    return fullImageUrl;
+  }
 
-      // Update session progress
-      const sessionImages = await storage.getDownloadedImagesForSession(session.id);
-      const completedCount = sessionImages.filter(img => img.status === 'completed').length;
-      await storage.updateDownloadSession(session.id, { 
-        completedImages: completedCount 
+  private async fetchFileSize(url: string, signal?: AbortSignal): Promise<number | undefined> {
+    try {
+      const response = await requestScheduler.request({
+        method: 'HEAD',
+        url,
+        timeout: 30000,
+        signal,
+        ...PUBLIC_WEB_REQUEST,
       });
+      const fileSize = parseInt(response.headers['content-length'] || '', 10);
+      return isNaN(fileSize) ? undefined : fileSize;
+    } catch {
+      // Not every host answers HEAD requests; the size is only informational
+      return undefined;
+    }
+  }
 
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Download failed';
-      
+  // Tries an image until it downloads, fails for good or runs out of attempts; retries keep their slot in the pool.
+  // The budget is the image's own, counted across runs, so pausing, requeueing or a restart does not renew it
+  private async downloadSingleImage(session: DownloadSession, image: DownloadedImage, signal: AbortSignal): Promise<void> {
+    while (true) {
+      const attempts = (image.attempts || 0) + 1;
+      image.attempts = attempts;
       await storage.updateDownloadedImage(image.id, {
-        status: 'failed',
-        errorMessage,
+        status: 'downloading',
+        attempts,
+        lastAttemptAt: new Date(),
       });
 
-      // Update session failed count
-      const sessionImages = await storage.getDownloadedImagesForSession(session.id);
-      const failedCount = sessionImages.filter(img => img.status === 'failed').length;
-      await storage.updateDownloadSession(session.id, { 
-        failedImages: failedCount 
+      try {
+        await this.transferImage(session, image, signal);
+        return;
+      } catch (error) {
+        // A stopped transfer is not a failure: a paused image keeps its part file for resume, a cancelled one does not
+        if (signal.aborted) {
+          if (signal.reason === 'cancelled') {
+            await fs.promises.unlink(partFilePath(this.getImageFilePath(session, image))).catch(() => {});
+          }
+          await storage.updateDownloadedImage(image.id, { status: 'pending', progress: 0 });
+          return;
+        }
+
+        const errorMessage = error instanceof Error ? error.message : 'Download failed';
+        const retry = session.retryEnabled && attempts < IMAGE_RETRY_POLICY.maxAttempts && isRetryableError(error);
+        if (!retry) {
+          await storage.updateDownloadedImage(image.id, {
+            status: 'failed',
+            errorMessage,
+          });
+
+          // Update session failed count
+          const sessionImages = await storage.getDownloadedImagesForSession(session.id);
+          const failedCount = sessionImages.filter(img => img.status === 'failed').length;
+          await storage.updateDownloadSession(session.id, { 
+            failedImages: failedCount 
+          });
+          return;
+        }
+
+        const delay = retryDelay(IMAGE_RETRY_POLICY, attempts);
+        console.log(`${image.originalUrl} failed (${errorMessage}), retrying in ${Math.round(delay / 1000)}s`);
+        await storage.updateDownloadedImage(image.id, { status: 'pending', progress: 0, errorMessage });
+        await waitForRetry(delay, signal);
+        if (signal.aborted) return;
+      }
+    }
+  }
+
+  private async transferImage(session: DownloadSession, image: DownloadedImage, signal: AbortSignal): Promise<void> {
+    // Get full resolution URL
+    const fullImageUrl = await this.resolveImageUrl(session, image, signal);
+    
+    const filePath = this.getImageFilePath(session, image);
+    const imageDir = path.dirname(filePath);
+    if (!fs.existsSync(imageDir)) {
+      fs.mkdirSync(imageDir, { recursive: true });
+    }
+
+    // Skip if file already exists and skipExisting is enabled
+    if (session.skipExisting && fs.existsSync(filePath)) {
+      // Recorded so recovery after a restart can check the file like one downloaded here
+      const { size } = await fs.promises.stat(filePath);
+      await storage.updateDownloadedImage(image.id, { 
+        status: 'completed',
+        progress: 100,
+        fileSize: size,
       });
+      return;
+    }
 
-      // Retry if enabled
-      if (session.retryEnabled) {
-        setTimeout(() => {
-          this.downloadSingleImage(session, image);
-        }, 5000);
+    // Download the image, picking up any bytes an earlier attempt left in the part file
+    const downloadedBytes = await downloadToFile(fullImageUrl, filePath, {
+      signal,
+      // Kept with the image so recovery after a restart can tell a whole file from a cut-off one
+      onStart: async totalBytes => {
+        if (totalBytes !== undefined) await storage.updateDownloadedImage(image.id, { fileSize: totalBytes });
+      },
+      onProgress: (receivedBytes, totalBytes) => {
+        const progress = totalBytes ? Math.round((receivedBytes / totalBytes) * 100) : 0;
+        storage.updateDownloadedImage(image.id, { progress });
+      },
+    });
+
+    // If Google Drive upload is enabled, upload the file
+    if (session.downloadLocation === 'google-drive' && session.googleDriveFolder) {
+      try {
+        // Upload to Google Drive
+        await googleDriveService.uploadFile(filePath, image.filename, session.googleDriveFolder);
+        
+        // Delete local file after successful upload (optional)
+        // fs.unlinkSync(filePath);
+      } catch (error) {
+        console.error('Failed to upload to Google Drive:', error);
+        // Continue with local storage if Google Drive fails
       }
     }
+
+    await storage.updateDownloadedImage(image.id, {
+      status: 'completed',
+      progress: 100,
+      fileSize: downloadedBytes,
+      errorMessage: null,
+    });
+
+    // Update session progress
+    const sessionImages = await storage.getDownloadedImagesForSession(session.id);
+    const completedCount = sessionImages.filter(img => img.status === 'completed').length;
+    await storage.updateDownloadSession(session.id, { 
+      completedImages: completedCount 
+    });
   }
 
   private async createZipArchive(session: DownloadSession): Promise<void> {
@@ -295,14 +468,7 @@ export class DownloadManager {
     );
 
     for (const pageDir of pageDirectories) {
-      const pagePath = path.join(sessionDir, pageDir);
-      const files = fs.readdirSync(pagePath);
-      
-      for (const file of files) {
-        const filePath = path.join(pagePath, file);
-        const fileContent = fs.readFileSync(filePath);
-        zip.file(`${pageDir}/${file}`, fileContent);
-      }
+      this.addDirectoryToZip(zip, path.join(sessionDir, pageDir), pageDir);
     }
 
     // Generate zip file
@@ -311,26 +477,32 @@ export class DownloadManager {
     fs.writeFileSync(zipPath, zipBuffer);
   }
 
-  private generateFilename(scrapedImage: ScrapedImage): string {
-    // Extract filename from URL or generate one
-    try {
-      const url = new URL(scrapedImage.hostingPage);
-      const pathSegments = url.pathname.split('/');
-      const lastSegment = pathSegments[pathSegments.length - 1];
-      
-      if (lastSegment && lastSegment.includes('.')) {
-        return lastSegment;
+  private addDirectoryToZip(zip: JSZip, directory: string, zipFolder: string): void {
+    // Page folders hold one sub-folder per post
+    for (const file of fs.readdirSync(directory)) {
+      const filePath = path.join(directory, file);
+      if (fs.statSync(filePath).isDirectory()) {
+        this.addDirectoryToZip(zip, filePath, `${zipFolder}/${file}`);
+      } else if (!file.endsWith(PART_FILE_EXTENSION)) {
+        // Unfinished transfers stay out of the archive
+        const fileContent = fs.readFileSync(filePath);
+        zip.file(`${zipFolder}/${file}`, fileContent);
       }
-      
-      // Generate filename with hosting site and timestamp
-      const timestamp = Date.now();
-      return `${scrapedImage.hostingSite}_${timestamp}.jpg`;
-    } catch {
-      const timestamp = Date.now();
-      return `image_${timestamp}.jpg`;
     }
   }
 
+  private generateFilename(scrapedImage: ScrapedImage): string {
+    // Use the host's filename hint or generate one
+    const hintedFilename = hostRegistry.filenameHint(scrapedImage.hostingPage);
+    if (hintedFilename) {
+      return hintedFilename;
+    }
+
+    // Generate filename with hosting site and timestamp
+    const timestamp = Date.now();
+    return `${scrapedImage.hostingSite || 'image'}_${timestamp}.jpg`;
+  }
+
   async getDownloadProgress(sessionId: number): Promise<DownloadProgress> {
     const session = await storage.getDownloadSession(sessionId);
     if (!session) {
@@ -352,11 +524,27 @@ export class DownloadManager {
       stage = 'completed';
       currentStage = 'Download completed';
       overallProgress = 100;
+    } else if (session.status === 'scanned') {
+      stage = 'completed';
+      currentStage = 'Scan completed - ready to download';
+      overallProgress = 100;
+    } else if (session.status === 'queued') {
+      currentStage = 'Waiting in the download queue...';
+    } else if (session.status === 'interrupted') {
+      currentStage = `Interrupted by a server restart (${completedImages}/${totalImages} images downloaded)`;
+      overallProgress = totalImages > 0 ? Math.round((completedImages / totalImages) * 80) + 15 : 0;
+    } else if (session.status === 'paused') {
+      currentStage = `Paused (${completedImages}/${totalImages} images downloaded)`;
+      overallProgress = totalImages > 0 ? Math.round((completedImages / totalImages) * 80) + 15 : 0;
     } else if (session.status === 'active') {
       if (totalImages === 0) {
         stage = 'parsing';
         currentStage = 'Parsing thread pages...';
         overallProgress = 10;
+      } else if (session.scanOnly) {
+        stage = 'extracting';
+        currentStage = `Resolving full size URLs for ${totalImages} images`;
+        overallProgress = 50;
       } else if (activeDownloads.length > 0) {
         stage = 'downloading';
         currentStage = `Downloading images (${completedImages}/${totalImages})`;
@@ -380,20 +568,200 @@ export class DownloadManager {
         filename: img.filename,
         hostingSite: img.hostingSite || 'unknown',
         progress: img.progress || 0,
+        status: img.status,
+        attempts: img.attempts,
+        lastAttemptAt: img.lastAttemptAt?.toISOString(),
+        errorMessage: img.errorMessage ?? undefined,
       })),
       downloadSpeed: '0 MB/s', // TODO: Calculate actual speed
     };
   }
 
+  // Turns a scanned session back into a pending download of the images it listed; failed lookups get another try
+  async promoteScan(sessionId: number): Promise<DownloadSession> {
+    const session = await storage.getDownloadSession(sessionId);
+    if (!session) {
+      throw new Error('Download session not found');
+    }
+    if (session.status !== 'scanned') {
+      throw new Error('Only scanned sessions can be promoted to a download');
+    }
+
+    const images = await storage.getDownloadedImagesForSession(sessionId);
+    for (const image of images.filter(img => img.status === 'failed')) {
+      await storage.updateDownloadedImage(image.id, { status: 'pending', errorMessage: null });
+    }
+
+    const promoted = await storage.updateDownloadSession(sessionId, {
+      scanOnly: false,
+      status: 'pending',
+      failedImages: 0,
+      completedAt: null,
+      errorMessage: null,
+    });
+    return promoted!;
+  }
+
+  async getManifest(sessionId: number): Promise<ManifestEntry[]> {
+    const images = await storage.getDownloadedImagesForSession(sessionId);
+    return images
+      .sort((a, b) => a.id - b.id)
+      .map(image => ({
+        pageNumber: image.pageNumber,
+        postId: image.postId ?? undefined,
+        galleryId: image.galleryId ?? undefined,
+        hostingSite: image.hostingSite ?? undefined,
+        hostingPage: image.originalUrl,
+        directUrl: image.resolvedUrl ?? undefined,
+        filename: image.filename,
+        fileSize: image.fileSize ?? undefined,
+        status: image.status,
+        attempts: image.attempts,
+      }));
+  }
+
   async cancelDownload(sessionId: number): Promise<void> {
-    const downloadPromise = this.activeDownloads.get(sessionId);
-    if (downloadPromise) {
-      this.activeDownloads.delete(sessionId);
-      await storage.updateDownloadSession(sessionId, { 
-        status: 'cancelled',
-        completedAt: new Date() 
-      });
+    if (this.stopRun(sessionId, 'cancelled')) return;
+
+    // A session that is waiting or paused is simply never started again
+    await storage.transitionDownloadSession(sessionId, ['pending', 'queued', 'paused', 'interrupted'], {
+      status: 'cancelled',
+      completedAt: new Date()
+    });
+  }
+
+  // Stops scheduling images and aborts the transfers in flight; finished files and the session directory stay
+  async pauseDownload(sessionId: number): Promise<DownloadSession> {
+    const session = await storage.getDownloadSession(sessionId);
+    if (!session) {
+      throw new Error('Download session not found');
+    }
+    if (this.stopRun(sessionId, 'paused')) {
+      return session;
+    }
+
+    const paused = await storage.transitionDownloadSession(sessionId, ['queued'], { status: 'paused' });
+    if (!paused) {
+      throw new Error('Only queued or active sessions can be paused');
+    }
+    return paused;
+  }
+
+  // Aborts a running session, which records the stop itself once it winds down, so its final status is never overwritten
+  private stopRun(sessionId: number, reason: StopReason): boolean {
+    const controller = this.abortControllers.get(sessionId);
+    if (!controller) return false;
+
+    controller.abort(reason);
+    return true;
+  }
+
+  // Puts the images left pending or failed back in line; the caller queues the session again
+  async resumeDownload(sessionId: number): Promise<DownloadSession> {
+    const session = await storage.getDownloadSession(sessionId);
+    if (!session) {
+      throw new Error('Download session not found');
+    }
+    if (session.status !== 'paused' && session.status !== 'interrupted') {
+      throw new Error('Only paused or interrupted sessions can be resumed');
     }
+    if (this.activeDownloads.has(sessionId)) {
+      throw new Error('Session is still stopping, try again in a moment');
+    }
+
+    const images = await storage.getDownloadedImagesForSession(sessionId);
+    for (const image of images.filter(img => img.status === 'failed' || img.status === 'downloading')) {
+      await storage.updateDownloadedImage(image.id, { status: 'pending', progress: 0, errorMessage: null });
+    }
+
+    const resumed = await storage.updateDownloadSession(sessionId, {
+      status: 'pending',
+      failedImages: 0,
+      errorMessage: null,
+    });
+    return resumed!;
+  }
+
+  // Brings a session left behind by a restart back in line with the disk: files are kept only at their recorded size,
+  // and .part files of unfinished images stay so the next attempt continues them
+  async repairSession(session: DownloadSession): Promise<void> {
+    const images = await storage.getDownloadedImagesForSession(session.id);
+    let completedCount = 0;
+    let failedCount = 0;
+
+    for (const image of images) {
+      const filePath = this.getImageFilePath(session, image);
+      if (image.status === 'downloading') {
+        // The file counts as finished only at a size known for it; a leftover .part file is continued next time
+        const stats = await fs.promises.stat(filePath).catch(() => undefined);
+        if (stats && image.fileSize != null && stats.size === image.fileSize) {
+          await storage.updateDownloadedImage(image.id, { status: 'completed', progress: 100, fileSize: stats.size });
+          completedCount++;
+        } else {
+          if (stats) await fs.promises.unlink(filePath).catch(() => {});
+          await storage.updateDownloadedImage(image.id, { status: 'pending', progress: 0 });
+        }
+      } else if (image.status === 'completed') {
+        const stats = await fs.promises.stat(filePath).catch(() => undefined);
+        const intact = !!stats && (image.fileSize == null || stats.size === image.fileSize);
+        if (intact) {
+          completedCount++;
+        } else {
+          // A truncated file would otherwise pass for done with skipExisting on
+          if (stats) await fs.promises.unlink(filePath).catch(() => {});
+          await storage.updateDownloadedImage(image.id, { status: 'pending', progress: 0 });
+        }
+      } else if (image.status === 'failed') {
+        failedCount++;
+      }
+    }
+
+    await storage.updateDownloadSession(session.id, {
+      completedImages: completedCount,
+      failedImages: failedCount,
+    });
+  }
+
+  // Sums the batch's sessions; finished, failed and cancelled threads count as done
+  async getBatchProgress(batchId: number): Promise<BatchProgress> {
+    const batch = await storage.getDownloadBatch(batchId);
+    if (!batch) {
+      throw new Error('Batch not found');
+    }
+
+    const sessions = await storage.getSessionsForBatch(batchId);
+    const progress = await Promise.all(sessions.map(session =>
+      isUnfinished(session) ? this.getDownloadProgress(session.id).then(p => p.overallProgress) : Promise.resolve(100)
+    ));
+
+    const unfinished = sessions.some(isUnfinished);
+    return {
+      batchId,
+      status: unfinished ? 'active' : batch.cancelledAt ? 'cancelled' : 'completed',
+      overallProgress: sessions.length > 0 ? Math.round(progress.reduce((sum, value) => sum + value, 0) / sessions.length) : 0,
+      completedImages: sessions.reduce((sum, session) => sum + (session.completedImages || 0), 0),
+      totalImages: sessions.reduce((sum, session) => sum + (session.totalImages || 0), 0),
+      failedImages: sessions.reduce((sum, session) => sum + (session.failedImages || 0), 0),
+      sessions: sessions.map((session, index) => ({
+        sessionId: session.id,
+        threadUrl: session.threadUrl,
+        threadTitle: session.threadTitle,
+        status: session.status,
+        overallProgress: progress[index],
+      })),
+    };
+  }
+
+  async cancelBatch(batchId: number): Promise<void> {
+    const batch = await storage.getDownloadBatch(batchId);
+    if (!batch) {
+      throw new Error('Batch not found');
+    }
+
+    for (const session of await storage.getSessionsForBatch(batchId)) {
+      if (isUnfinished(session)) await this.cancelDownload(session.id);
+    }
+    await storage.updateDownloadBatch(batchId, { cancelledAt: new Date() });
   }
 
   async getZipDownloadPath(sessionId: number): Promise<string> {
@@ -405,4 +773,8 @@ export class DownloadManager {
   }
 }
 
+function isUnfinished(session: DownloadSession): boolean {
+  return ['pending', 'queued', 'active', 'paused', 'interrupted'].includes(session.status);
+}
+
 export const downloadManager = new DownloadManager();
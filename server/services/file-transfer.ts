@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import axios from 'axios';
+import { pipeline } from 'stream';
+import { promisify } from 'util';
+import { requestScheduler } from './request-scheduler';
+import { PUBLIC_WEB_REQUEST } from './public-address';
+
+const pipelineAsync = promisify(pipeline);
+
+export interface TransferOptions {
+  signal?: AbortSignal;
+  onProgress?: (receivedBytes: number, totalBytes?: number) => void;
+  // Called once the host has answered, with the full size of the file when the host announced it
+  onStart?: (totalBytes?: number) => Promise<void> | void;
+}
+
+export const PART_FILE_EXTENSION = '.part';
+
+// Bytes received so far live next to the final file until the transfer is complete
+export function partFilePath(filePath: string): string {
+  return `${filePath}${PART_FILE_EXTENSION}`;
+}
+
+// Downloads into a .part file, continuing an earlier attempt with a Range request when the host allows it,
+// and moves it to the final name once its length matches what the host announced. Returns the file size.
+export async function downloadToFile(url: string, filePath: string, options: TransferOptions = {}): Promise<number> {
+  const partPath = partFilePath(filePath);
+  const resumeFrom = await fs.promises.stat(partPath).then(stats => stats.size, () => 0);
+
+  let response;
+  try {
+    response = await requestScheduler.request({
+      method: 'GET',
+      url,
+      responseType: 'stream',
+      timeout: 60000,
+      signal: options.signal,
+      headers: resumeFrom > 0 ? { Range: `bytes=${resumeFrom}-` } : undefined,
+      ...PUBLIC_WEB_REQUEST,
+    });
+  } catch (error) {
+    // The host has less than we already hold, so the part file is not the same image any more
+    if (resumeFrom > 0 && axios.isAxiosError(error) && error.response?.status === 416) {
+      await fs.promises.unlink(partPath).catch(() => {});
+    }
+    throw error;
+  }
+
+  // Hosts without range support answer 200 with the whole file, which replaces the part file
+  const contentRange = parseContentRange(response.headers['content-range']);
+  const resumed = response.status === 206;
+  if (resumed && contentRange?.start !== resumeFrom) {
+    response.data.destroy();
+    await fs.promises.unlink(partPath).catch(() => {});
+    throw new Error('Host answered with a different byte range than requested');
+  }
+
+  const offset = resumed ? resumeFrom : 0;
+  const contentLength = parseInt(response.headers['content-length'] || '', 10);
+  const expectedSize = contentRange?.total ?? (isNaN(contentLength) ? undefined : offset + contentLength);
+  await options.onStart?.(expectedSize);
+
+  let receivedBytes = offset;
+  response.data.on('data', (chunk: Buffer) => {
+    receivedBytes += chunk.length;
+    options.onProgress?.(receivedBytes, expectedSize);
+  });
+
+  // Stopping ends the transfer mid-stream; what arrived stays in the part file
+  const abortTransfer = () => response.data.destroy(new Error('Download stopped'));
+  options.signal?.addEventListener('abort', abortTransfer, { once: true });
+  try {
+    await pipelineAsync(response.data, fs.createWriteStream(partPath, { flags: resumed ? 'a' : 'w' }));
+  } finally {
+    options.signal?.removeEventListener('abort', abortTransfer);
+  }
+
+  const { size } = await fs.promises.stat(partPath);
+  if (expectedSize !== undefined && size !== expectedSize) {
+    // A short file can be continued next time; a longer one cannot be trusted
+    if (size > expectedSize) await fs.promises.unlink(partPath).catch(() => {});
+    throw new Error(`Incomplete download: received ${size} of ${expectedSize} bytes`);
+  }
+
+  await fs.promises.rename(partPath, filePath);
+  return size;
+}
+
+// Content-Range: bytes 1000-4999/5000, where the total may be * when unknown
+function parseContentRange(value: unknown): { start: number; total?: number } | undefined {
+  const match = typeof value === 'string' ? value.match(/^bytes\s+(\d+)-\d+\/(\d+|\*)$/i) : null;
+  if (!match) return undefined;
+  return {
+    start: parseInt(match[1], 10),
+    total: match[2] === '*' ? undefined : parseInt(match[2], 10),
+  };
+}
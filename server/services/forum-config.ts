@@ -0,0 +1,66 @@
+import type { ForumSettings } from '@shared/schema';
+
+const DEFAULT_ORIGIN = 'https://vipergirls.to';
+
+function hostnameOf(value: string): string {
+  // Accept bare domains as well as full origins in the settings
+  const withScheme = /^[a-z]+:\/\//i.test(value) ? value : `https://${value}`;
+  return new URL(withScheme).hostname.toLowerCase().replace(/^www\./, '');
+}
+
+function matchesAnyDomain(url: URL, domains: string[]): boolean {
+  const hostname = url.hostname.toLowerCase();
+  return domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+export class ForumConfig {
+  readonly origin: string;
+  readonly domains: string[];
+  readonly genericDomains: string[];
+
+  constructor(origin: string, aliasDomains: string[], genericDomains: string[] = []) {
+    this.origin = new URL(origin).origin;
+    // The origin's own domain is always accepted, ahead of its aliases
+    this.domains = Array.from(new Set([hostnameOf(origin), ...aliasDomains.map(hostnameOf)]));
+    this.genericDomains = Array.from(new Set(genericDomains.map(hostnameOf)));
+  }
+
+  isForumUrl(url: URL): boolean {
+    return matchesAnyDomain(url, this.domains);
+  }
+
+  // Other vBulletin and XenForo boards are only read when they are listed
+  isGenericForumUrl(url: URL): boolean {
+    return matchesAnyDomain(url, this.genericDomains);
+  }
+
+  // Rewrites a link on any accepted domain to the configured origin, keeping path, query and hash
+  normalizeUrl(url: string): string {
+    const parsed = new URL(url);
+    if (!this.isForumUrl(parsed)) {
+      throw new Error(`${parsed.hostname} is not a configured forum domain`);
+    }
+    return new URL(`${parsed.pathname}${parsed.search}${parsed.hash}`, this.origin).toString();
+  }
+
+  // Absolute URL on the configured origin for a forum path such as /threads/123/page-2
+  url(pathname: string): string {
+    return new URL(pathname, this.origin).toString();
+  }
+
+  toSettings(imageHosts: string[]): ForumSettings {
+    return { origin: this.origin, domains: this.domains, genericDomains: this.genericDomains, imageHosts };
+  }
+}
+
+function domainList(value: string | undefined): string[] {
+  return (value || '').split(',').map(domain => domain.trim()).filter(Boolean);
+}
+
+// FORUM_ORIGIN picks where pages are fetched from; FORUM_ALIASES lists mirror domains whose links are accepted;
+// GENERIC_FORUMS lists the other boards the generic vBulletin and XenForo adapters may read
+export const forumConfig = new ForumConfig(
+  process.env.FORUM_ORIGIN || DEFAULT_ORIGIN,
+  domainList(process.env.FORUM_ALIASES),
+  domainList(process.env.GENERIC_FORUMS),
+);
@@ -0,0 +1,127 @@
+import { storage } from '../storage';
+import { CookieJar } from './cookie-jar';
+import { encryptCredential, decryptCredential } from './credential-cipher';
+import type { ForumAdapter } from './forums/types';
+import type { ForumAccount, ForumAccountStatus } from '@shared/schema';
+
+// Keeps each forum's logged-in cookie jar, logging in with the stored account when the session is missing or lapsed
+export class ForumSessionManager {
+  // null marks a forum with no account, so anonymous boards do not hit the database on every page
+  private jars: Map<string, CookieJar | null>;
+  private pendingLogins: Map<string, Promise<CookieJar | undefined>>;
+  private failedLogins: Set<string>;
+
+  constructor() {
+    this.jars = new Map();
+    this.pendingLogins = new Map();
+    this.failedLogins = new Set();
+  }
+
+  // Cookie header to send to the forum, or undefined when it is browsed anonymously
+  async cookieHeader(forum: ForumAdapter): Promise<string | undefined> {
+    if (!this.jars.has(forum.origin)) {
+      const account = await storage.getForumAccount(forum.origin);
+      const jar = account ? CookieJar.fromJSON(account.cookieJar) : null;
+      this.jars.set(forum.origin, jar);
+      if (account && jar?.isEmpty) {
+        await this.login(forum, account);
+      }
+    }
+
+    return this.jars.get(forum.origin)?.header();
+  }
+
+  // Called when a page came back logged out; returns the new cookie header if logging in again worked
+  async refresh(forum: ForumAdapter): Promise<string | undefined> {
+    // A rejected login is not retried until the account is saved again
+    if (this.failedLogins.has(forum.origin)) return undefined;
+
+    const account = await storage.getForumAccount(forum.origin);
+    if (!account) return undefined;
+
+    const jar = await this.login(forum, account);
+    return jar?.header();
+  }
+
+  // Takes cookies a forum sets on ordinary pages, such as a rotated session cookie, so the stored session stays current
+  async storeCookies(forum: ForumAdapter, setCookieHeaders: string[] | undefined): Promise<void> {
+    const jar = this.jars.get(forum.origin);
+    if (!jar || !setCookieHeaders?.length) return;
+
+    const before = jar.toJSON();
+    jar.store(setCookieHeaders);
+    if (jar.toJSON() !== before) {
+      await storage.updateForumAccount(forum.origin, { cookieJar: jar.toJSON() });
+    }
+  }
+
+  async saveAccount(forum: ForumAdapter, username: string, password: string): Promise<ForumAccountStatus> {
+    const account = await storage.saveForumAccount({
+      forumOrigin: forum.origin,
+      username,
+      password: encryptCredential(password),
+      cookieJar: null,
+      loggedInAt: null,
+      lastError: null,
+    });
+    this.failedLogins.delete(forum.origin);
+    await this.login(forum, account);
+    return this.getStatus(forum);
+  }
+
+  async removeAccount(forum: ForumAdapter): Promise<void> {
+    await storage.deleteForumAccount(forum.origin);
+    this.jars.set(forum.origin, null);
+    this.failedLogins.delete(forum.origin);
+  }
+
+  async getStatus(forum: ForumAdapter): Promise<ForumAccountStatus> {
+    const account = await storage.getForumAccount(forum.origin);
+    if (!account) {
+      return { configured: false, loggedIn: false };
+    }
+
+    return {
+      configured: true,
+      loggedIn: !CookieJar.fromJSON(account.cookieJar).isEmpty && !account.lastError,
+      loggedInAt: account.loggedInAt?.toISOString(),
+      lastError: account.lastError || undefined,
+    };
+  }
+
+  private login(forum: ForumAdapter, account: ForumAccount): Promise<CookieJar | undefined> {
+    // Pages fetched in parallel share one login
+    const pending = this.pendingLogins.get(forum.origin);
+    if (pending) return pending;
+
+    const login = this.performLogin(forum, account).finally(() => {
+      this.pendingLogins.delete(forum.origin);
+    });
+    this.pendingLogins.set(forum.origin, login);
+    return login;
+  }
+
+  private async performLogin(forum: ForumAdapter, account: ForumAccount): Promise<CookieJar | undefined> {
+    try {
+      console.log(`Logging in to ${forum.name} as ${account.username}`);
+      const jar = await forum.login(account.username, decryptCredential(account.password));
+      await storage.updateForumAccount(forum.origin, {
+        cookieJar: jar.toJSON(),
+        loggedInAt: new Date(),
+        lastError: null,
+      });
+      this.jars.set(forum.origin, jar);
+      this.failedLogins.delete(forum.origin);
+      return jar;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Login failed';
+      console.error(`Login to ${forum.name} failed:`, errorMessage);
+      await storage.updateForumAccount(forum.origin, { cookieJar: null, lastError: errorMessage });
+      this.jars.set(forum.origin, new CookieJar());
+      this.failedLogins.add(forum.origin);
+      return undefined;
+    }
+  }
+}
+
+export const forumSessions = new ForumSessionManager();
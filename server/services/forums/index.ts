@@ -0,0 +1,62 @@
+import type { ForumAdapter } from './types';
+import { ViperGirlsAdapter } from './vipergirls';
+import { VBulletinAdapter } from './vbulletin';
+import { XenForoAdapter } from './xenforo';
+import { requestScheduler, type HostPolicy } from '../request-scheduler';
+import { forumConfig } from '../forum-config';
+
+export type { ForumAdapter } from './types';
+
+// Forum pages are heavier than image requests, so boards get a slower budget than image hosts
+const FORUM_POLICY: HostPolicy = { maxConcurrent: 2, minIntervalMs: 1000 };
+
+export class ForumAdapterRegistry {
+  private adapters: ForumAdapter[] = [];
+
+  register(adapter: ForumAdapter): void {
+    this.adapters.push(adapter);
+    requestScheduler.setPolicy(new URL(adapter.origin).hostname, FORUM_POLICY);
+  }
+
+  // Picks the adapter for a thread link's domain; boards listed in GENERIC_FORUMS get a generic one for this request only
+  forUrl(url: string): ForumAdapter {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new Error('Invalid thread URL');
+    }
+
+    const registered = this.adapters.find(adapter => adapter.matches(parsed));
+    if (registered) return registered;
+
+    if (!forumConfig.isGenericForumUrl(parsed)) {
+      throw new Error(`Unsupported forum URL: ${parsed.hostname} is not a configured forum`);
+    }
+    const adapter = this.detectGenericAdapter(parsed);
+    if (!adapter) {
+      throw new Error(`Unsupported forum URL: ${parsed.hostname} does not look like a vBulletin or XenForo thread`);
+    }
+    requestScheduler.setPolicy(parsed.hostname, FORUM_POLICY);
+    return adapter;
+  }
+
+  private detectGenericAdapter(url: URL): ForumAdapter | undefined {
+    const pathname = url.pathname;
+
+    // XenForo: /threads/thread-name.123/ and /posts/456/
+    if (/\/threads\/[^/]*\.\d+/.test(pathname) || /\/posts\/\d+/.test(pathname)) {
+      return new XenForoAdapter(url.origin);
+    }
+
+    // vBulletin: showthread.php?t=123, showpost.php?p=456 or friendly /threads/123-thread-name
+    if (/\/show(?:thread|post)\.php/.test(pathname) || /\/threads\/\d+/.test(pathname)) {
+      return new VBulletinAdapter(url.origin);
+    }
+
+    return undefined;
+  }
+}
+
+export const forumRegistry = new ForumAdapterRegistry();
+forumRegistry.register(new ViperGirlsAdapter());
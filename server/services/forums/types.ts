@@ -0,0 +1,32 @@
+import type { PageCacheOptions } from '../page-cache';
+import type { CookieJar } from '../cookie-jar';
+import type { ScrapedImage, ScrapedPost, ThreadInfo, ThreadLocation } from '../scraper';
+
+export interface ForumAdapter {
+  // Shown in logs and errors, e.g. "ViperGirls"
+  readonly name: string;
+
+  // Origin thread pages are fetched from
+  readonly origin: string;
+
+  // Whether thread and post links on this URL's domain belong to this board
+  matches(url: URL): boolean;
+
+  // Logs in with a member account and returns the session cookies; throws when the forum rejects the login
+  login(username: string, password: string): Promise<CookieJar>;
+
+  // Turns a thread, page or post link into the thread ID, starting page and target post
+  parseThreadUrl(url: string): Promise<ThreadLocation>;
+
+  // Title and page count, read from the given thread page
+  getThreadInfo(threadId: string, page?: number, options?: PageCacheOptions): Promise<ThreadInfo>;
+
+  // Posts on one thread page, each with the hosted images it links
+  scrapeThreadPosts(threadId: string, page: number, options?: PageCacheOptions): Promise<ScrapedPost[]>;
+
+  // All hosted images on one thread page, in post order
+  scrapeThreadPage(threadId: string, page: number, options?: PageCacheOptions): Promise<ScrapedImage[]>;
+
+  // Thread title plus the readable post text of one page
+  extractPageText(threadId: string, page: number, options?: PageCacheOptions): Promise<string>;
+}
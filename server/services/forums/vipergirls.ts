@@ -0,0 +1,44 @@
+import { VBulletinAdapter } from './vbulletin';
+import { forumConfig } from '../forum-config';
+
+// ViperGirls runs vBulletin, but serves threads under its own /threads/ paths and mirror domains
+export class ViperGirlsAdapter extends VBulletinAdapter {
+  readonly name = 'ViperGirls';
+
+  protected readonly postContainerSelectors = [
+    'article.message[data-content^="post-"]',
+    'li.postcontainer',
+    'li[id^="post_"]',
+    'div[id^="post_"]:not([id^="post_message_"])',
+  ];
+
+  protected readonly postBodySelectors = [
+    '.message-body',
+    '.bbWrapper', 
+    '.post-content',
+    '.messageContent',
+    '.message-content',
+    'article .message',
+    '[data-lb-sidebar-href]',
+    '.js-post',
+    '.message',
+    '.post'
+  ];
+
+  constructor() {
+    super(forumConfig.origin);
+  }
+
+  matches(url: URL): boolean {
+    return forumConfig.isForumUrl(url);
+  }
+
+  protected threadPageUrl(threadId: string, page: number): string {
+    return forumConfig.url(`/threads/${threadId}/page-${page}`);
+  }
+
+  protected normalizeUrl(url: string): string {
+    // Links from mirror domains are read as if they were on the configured origin
+    return forumConfig.normalizeUrl(url);
+  }
+}
@@ -0,0 +1,74 @@
+import * as cheerio from 'cheerio';
+import { ForumScraper } from '../scraper';
+import { CookieJar } from '../cookie-jar';
+import { requestScheduler } from '../request-scheduler';
+
+// Any XenForo 2 board; thread pages redirect to their slugged URL, so the bare ID is enough
+export class XenForoAdapter extends ForumScraper {
+  readonly name = 'XenForo';
+
+  protected readonly postContainerSelectors = [
+    'article.message[data-content^="post-"]',
+  ];
+
+  protected readonly postBodySelectors = [
+    '.message-body .bbWrapper',
+    '.bbWrapper',
+    '.message-body',
+  ];
+
+  constructor(readonly origin: string) {
+    super();
+  }
+
+  matches(url: URL): boolean {
+    return url.origin === this.origin;
+  }
+
+  protected threadPageUrl(threadId: string, page: number): string {
+    return new URL(`/threads/${threadId}/page-${page}`, this.origin).toString();
+  }
+
+  async login(username: string, password: string): Promise<CookieJar> {
+    const jar = new CookieJar();
+    const headers = { 'User-Agent': this.userAgent, 'Referer': this.origin };
+
+    // The login form carries a CSRF token tied to the xf_csrf cookie set with it
+    const formResponse = await requestScheduler.request<string>({
+      url: new URL('/login/', this.origin).toString(),
+      headers,
+      responseType: 'text',
+      timeout: 30000,
+    });
+    jar.store(formResponse.headers['set-cookie']);
+    const token = cheerio.load(formResponse.data)('input[name="_xfToken"]').attr('value') || '';
+
+    const fields = new URLSearchParams({
+      login: username,
+      password,
+      remember: '1',
+      _xfToken: token,
+      _xfRedirect: this.origin,
+    });
+    const loginResponse = await requestScheduler.request<string>({
+      url: new URL('/login/login', this.origin).toString(),
+      method: 'POST',
+      data: fields.toString(),
+      headers: { ...headers, 'Content-Type': 'application/x-www-form-urlencoded', 'Cookie': jar.header() },
+      responseType: 'text',
+      maxRedirects: 0,
+      validateStatus: status => status < 400,
+      timeout: 30000,
+    });
+    jar.store(loginResponse.headers['set-cookie']);
+
+    if (!jar.get('xf_user')) {
+      throw new Error(`${this.name} rejected the login - check the username and password`);
+    }
+    return jar;
+  }
+
+  protected isLoggedOut($: cheerio.CheerioAPI): boolean {
+    return $('html').attr('data-logged-in') === 'false';
+  }
+}
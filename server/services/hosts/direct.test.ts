@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { directImageResolver, isDirectImageUrl } from './direct';
+
+describe('directImageResolver', () => {
+  it('matches links to image files', () => {
+    assert.ok(isDirectImageUrl(new URL('https://cdn.example.com/sets/beach/01.jpg')));
+    assert.ok(isDirectImageUrl(new URL('https://cdn.example.com/sets/beach/01.WEBP')));
+    assert.ok(!isDirectImageUrl(new URL('https://cdn.example.com/sets/beach/')));
+    assert.ok(!isDirectImageUrl(new URL('ftp://cdn.example.com/01.jpg')));
+  });
+
+  it('leaves out forum furniture', () => {
+    assert.ok(!isDirectImageUrl(new URL('https://vipergirls.to/images/smilies/smile.png')));
+    assert.ok(!isDirectImageUrl(new URL('https://vipergirls.to/customavatars/avatar123_1.gif')));
+    assert.ok(!isDirectImageUrl(new URL('https://secure.gravatar.com/avatar/abc.jpg')));
+    assert.ok(!isDirectImageUrl(new URL('https://vipergirls.to/clear.gif')));
+  });
+
+  it('rejects loopback, private and link-local addresses and non-default ports', () => {
+    assert.ok(!isDirectImageUrl(new URL('http://127.0.0.1:5432/x.jpg')));
+    assert.ok(!isDirectImageUrl(new URL('http://169.254.169.254/latest/meta-data.png')));
+    assert.ok(!isDirectImageUrl(new URL('http://172.20.1.4/photo.jpg')));
+    assert.ok(!isDirectImageUrl(new URL('http://[::ffff:127.0.0.1]/photo.jpg')));
+    assert.ok(!isDirectImageUrl(new URL('http://2130706433/photo.jpg')));
+    assert.ok(!isDirectImageUrl(new URL('http://printer.local/scan.png')));
+    assert.ok(!isDirectImageUrl(new URL('https://cdn.example.com:8080/01.jpg')));
+    assert.ok(isDirectImageUrl(new URL('https://93.184.216.34/01.jpg')));
+  });
+
+  it('never lets the thumbnail proxy fetch the image', () => {
+    assert.ok(!directImageResolver.matchesThumbnail(new URL('https://cdn.example.com/sets/beach/01.jpg')));
+  });
+
+  it('resolves to the link itself', async () => {
+    const url = 'https://93.184.216.34/sets/beach/01.jpg';
+    assert.equal(await directImageResolver.resolveFullImage(url, { fetchPage: () => Promise.reject(new Error('not fetched')) }), url);
+    assert.equal(directImageResolver.buildThumbnailUrl(url), url);
+  });
+
+  it('refuses to resolve a link to a private address', async () => {
+    await assert.rejects(
+      directImageResolver.resolveFullImage('http://10.1.2.3/01.jpg', { fetchPage: () => Promise.reject(new Error('not fetched')) }),
+      /not a public web address/,
+    );
+  });
+
+  it('takes the filename from the link', () => {
+    assert.equal(directImageResolver.filenameHint('https://cdn.example.com/sets/beach/01.jpg'), '01.jpg');
+  });
+});
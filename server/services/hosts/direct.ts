@@ -0,0 +1,48 @@
+import type { HostResolver } from './types';
+import { defaultFilenameHint } from './helpers';
+import { isPublicWebUrl, assertPublicWebUrl } from '../public-address';
+
+const IMAGE_PATH = /\.(?:jpe?g|png|gif|webp)$/i;
+
+// Forum furniture that is embedded in posts like any other image: smilies, avatars, buttons and spacers
+const UI_IMAGE_PATH = /\/(?:smilies|smileys|smiley|emoji|emoticons?|avatars?|customavatars|customprofilepics|clientscript|images\/(?:misc|buttons|icons|statusicon|reputation|rating|ranks|regimage)|styles?\/[^/]+\/(?:images|xenforo))\/|\/(?:spacer|blank|clear|pixel|transparent)\.gif$/i;
+const UI_IMAGE_HOSTS = ['gravatar.com'];
+
+export function isDirectImageUrl(url: URL): boolean {
+  // Any server could be named here, so loopback, private and link-local addresses and odd ports are never images
+  if (!isPublicWebUrl(url) || !IMAGE_PATH.test(url.pathname)) return false;
+
+  const hostname = url.hostname.toLowerCase();
+  if (UI_IMAGE_HOSTS.some(host => hostname === host || hostname.endsWith(`.${host}`))) return false;
+  return !UI_IMAGE_PATH.test(url.pathname);
+}
+
+// Links straight to an image file on a host without a resolver; registered last so known hosts keep their own handling
+export const directImageResolver: HostResolver = {
+  site: 'direct',
+
+  matches(url) {
+    return isDirectImageUrl(url);
+  },
+
+  postOnly: true,
+
+  linkPattern: /https?:\/\/[^\s"'<>\[\]]+?\.(?:jpe?g|png|gif|webp)(?:\?[^\s"'<>\[\]#]*)?(?=$|[\s"'<>\[\]#]|[.,;:!)](?:\s|$))/gi,
+
+  // The link already is the image, once its hostname is known not to lead into the server's network
+  async resolveFullImage(pageUrl) {
+    await assertPublicWebUrl(pageUrl);
+    return pageUrl;
+  },
+
+  // The browser loads an embedded image as its own preview; the thumbnail proxy never fetches arbitrary servers
+  matchesThumbnail() {
+    return false;
+  },
+
+  buildThumbnailUrl(pageUrl) {
+    return pageUrl;
+  },
+
+  filenameHint: defaultFilenameHint,
+};
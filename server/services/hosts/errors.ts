@@ -0,0 +1,7 @@
+// The host says the image is gone; asking again will not bring it back, so the downloader does not retry it
+export class ImageRemovedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageRemovedError';
+  }
+}
@@ -0,0 +1,30 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as cheerio from 'cheerio';
+import type { ResolveContext, FetchPageOptions } from '../types';
+
+export interface FixtureRequest {
+  url: string;
+  options?: FetchPageOptions;
+}
+
+// Serves saved host pages by URL instead of fetching them, and records what a resolver asked for;
+// pages answering a form submission are keyed as "POST <url>"
+export function fixtureContext(pages: Record<string, string>): ResolveContext & { requests: FixtureRequest[] } {
+  const requests: FixtureRequest[] = [];
+  return {
+    requests,
+    async fetchPage(url, options) {
+      requests.push({ url, options });
+      const fixture = options?.method === 'POST' ? pages[`POST ${url}`] : pages[url];
+      if (!fixture) {
+        throw new Error(`No fixture for ${url}`);
+      }
+      return cheerio.load(readFixture(fixture));
+    },
+  };
+}
+
+export function readFixture(name: string): string {
+  return fs.readFileSync(path.join(import.meta.dirname, name), 'utf8');
+}
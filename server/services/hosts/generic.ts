@@ -0,0 +1,23 @@
+import type * as cheerio from 'cheerio';
+import { absoluteImageUrl } from './helpers';
+
+// Last resort for pages no resolver claims - look for the first reasonably named image
+export function extractGenericImageUrl($: cheerio.CheerioAPI): string {
+  const selectors = [
+    'img[src*=".jpg"]',
+    'img[src*=".jpeg"]',
+    'img[src*=".png"]',
+    'img[src*=".gif"]',
+    'img[src*=".webp"]'
+  ];
+
+  for (const selector of selectors) {
+    const src = $(selector).first().attr('src');
+    if (src && !src.includes('thumbnail') && !src.includes('preview')) {
+      return absoluteImageUrl(src);
+    }
+  }
+
+  throw new Error('Could not find image URL on page');
+}
+
@@ -0,0 +1,131 @@
+import type * as cheerio from 'cheerio';
+import type { ResolveContext, GalleryImage } from './types';
+import { ImageRemovedError } from './errors';
+
+const IMAGE_EXTENSION = /\.(jpe?g|png|gif|webp|bmp)$/i;
+
+export function matchesDomain(url: URL, domain: string): boolean {
+  const hostname = url.hostname.toLowerCase();
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+export function absoluteImageUrl(src: string): string {
+  return src.startsWith('//') ? `https:${src}` : src;
+}
+
+export function firstImageSrc($: cheerio.CheerioAPI, selectors: string[]): string | undefined {
+  for (const selector of selectors) {
+    const src = $(selector).first().attr('src');
+    if (src) return absoluteImageUrl(src);
+  }
+  return undefined;
+}
+
+export function filenameFromUrl(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    const segments = new URL(url).pathname.split('/').filter(Boolean);
+    const lastSegment = decodeURIComponent(segments[segments.length - 1] || '');
+    return IMAGE_EXTENSION.test(lastSegment) ? lastSegment : null;
+  } catch {
+    return null;
+  }
+}
+
+// Default hint: prefer the name on the full image, fall back to the hosting page path
+export function defaultFilenameHint(pageUrl: string, fullImageUrl?: string): string | null {
+  return filenameFromUrl(fullImageUrl) || filenameFromUrl(pageUrl);
+}
+
+// Hosts serve a normal page saying the image is gone rather than an error status
+const REMOVED_NOTICE = /\b(?:removed|deleted|no longer (?:available|exists)|does not exist|taken down)\b/i;
+
+// The error for a page without its image: ImageRemovedError when the host's own notice says the image is gone.
+// Only the title and the host's notice element are read, since footers and terms pages talk about removals too
+export function missingImageError($: cheerio.CheerioAPI, hostName: string, noticeSelector?: string): Error {
+  const notices = [$('title').text(), noticeSelector ? $(noticeSelector).text() : ''];
+  if (notices.some(text => REMOVED_NOTICE.test(text))) {
+    return new ImageRemovedError(`Image was removed from ${hostName}`);
+  }
+  return new Error(`Could not find image on ${hostName} page`);
+}
+
+// Resolves relative and protocol-relative image sources against the page they were found on
+export function resolveImageSrc(src: string, pageUrl: string): string {
+  try {
+    return new URL(absoluteImageUrl(src), pageUrl).toString();
+  } catch {
+    return absoluteImageUrl(src);
+  }
+}
+
+// Gets past "Continue to image" interstitials, submitting the form or following the link they offer
+export async function followContinuePage(
+  $: cheerio.CheerioAPI,
+  pageUrl: string,
+  context: ResolveContext,
+): Promise<cheerio.CheerioAPI | undefined> {
+  const headers = { Referer: pageUrl };
+  const isContinue = (text: string) => /continue/i.test(text);
+
+  const form = $('form').filter((_, element) => {
+    const buttonValues = $(element).find('input[type="submit"]').map((_, input) => $(input).attr('value') || '').get();
+    return isContinue($(element).text()) || buttonValues.some(isContinue);
+  }).first();
+
+  if (form.length > 0) {
+    const action = resolveImageSrc(form.attr('action') || pageUrl, pageUrl);
+    const fields = new URLSearchParams();
+    form.find('input[name]').each((_, input) => {
+      fields.append($(input).attr('name')!, $(input).attr('value') || '');
+    });
+
+    if ((form.attr('method') || 'get').toLowerCase() === 'post') {
+      return context.fetchPage(action, {
+        method: 'POST',
+        data: fields.toString(),
+        headers: { ...headers, 'Content-Type': 'application/x-www-form-urlencoded' },
+      });
+    }
+    const target = new URL(action);
+    fields.forEach((value, key) => target.searchParams.set(key, value));
+    return context.fetchPage(target.toString(), { headers });
+  }
+
+  const href = $('a').filter((_, element) => isContinue($(element).text())).first().attr('href');
+  if (href && !href.startsWith('#') && !href.startsWith('javascript:')) {
+    return context.fetchPage(resolveImageSrc(href, pageUrl), { headers });
+  }
+
+  return undefined;
+}
+
+const MAX_GALLERY_PAGES = 50;
+
+// Walks a paginated gallery, reading each page's images until there is no next page or nothing new turns up
+export async function collectGalleryPages(
+  galleryUrl: string,
+  context: ResolveContext,
+  readPage: ($: cheerio.CheerioAPI, pageUrl: string) => GalleryImage[],
+): Promise<GalleryImage[]> {
+  const images = new Map<string, GalleryImage>();
+  const visited = new Set<string>();
+  let pageUrl: string | undefined = galleryUrl;
+
+  while (pageUrl && !visited.has(pageUrl) && visited.size < MAX_GALLERY_PAGES) {
+    visited.add(pageUrl);
+    const $ = await context.fetchPage(pageUrl);
+
+    const countBefore = images.size;
+    for (const image of readPage($, pageUrl)) {
+      if (!images.has(image.hostingPage)) images.set(image.hostingPage, image);
+    }
+    if (images.size === countBefore) break;
+
+    const next = $('a[rel="next"], .pagination a.next, .pagination .next a').first().attr('href') ||
+                 $('.pagination a, .page-link').filter((_, element) => /^(next|›|»)/i.test($(element).text().trim())).first().attr('href');
+    pageUrl = next ? resolveImageSrc(next, pageUrl) : undefined;
+  }
+
+  return Array.from(images.values());
+}
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { imageBamResolver } from './imagebam';
+import { fixtureContext } from './fixtures/context';
+import { ImageRemovedError } from './errors';
+
+describe('imageBamResolver', () => {
+  it('matches image and gallery pages on imagebam.com', () => {
+    assert.ok(imageBamResolver.matches(new URL('https://www.imagebam.com/view/MEXK2QF')));
+    assert.ok(imageBamResolver.matches(new URL('https://imagebam.com/image/a1b2c3d4e5')));
+    assert.ok(!imageBamResolver.matches(new URL('https://imgbox.com/Xq7Rt2Lm')));
+  });
+
+  it('resolves the main image rather than the banner above it', async () => {
+    const context = fixtureContext({ 'https://www.imagebam.com/view/MEXK2QF': 'imagebam-image.html' });
+    const imageUrl = await imageBamResolver.resolveFullImage('https://www.imagebam.com/view/MEXK2QF', context);
+    assert.equal(imageUrl, 'https://images4.imagebam.com/3f/a1/9c/MEXK2QF_o.jpg');
+  });
+
+  it('reports a removed image as removed', async () => {
+    const context = fixtureContext({ 'https://www.imagebam.com/view/MEXK2QF': 'imagebam-removed.html' });
+    await assert.rejects(imageBamResolver.resolveFullImage('https://www.imagebam.com/view/MEXK2QF', context), ImageRemovedError);
+  });
+
+  it('tells galleries apart from single images', () => {
+    assert.equal(imageBamResolver.imageId!(new URL('https://www.imagebam.com/view/MEXK2QF')), 'MEXK2QF');
+    assert.equal(imageBamResolver.imageId!(new URL('https://www.imagebam.com/view/GA3XYZ')), null);
+    assert.equal(imageBamResolver.galleryId!(new URL('https://www.imagebam.com/view/GA3XYZ')), 'GA3XYZ');
+    assert.equal(imageBamResolver.galleryId!(new URL('https://www.imagebam.com/gallery/k2j4h6')), 'k2j4h6');
+  });
+
+  it('expands a gallery into its image pages with their previews', async () => {
+    const context = fixtureContext({ 'https://www.imagebam.com/view/GA3XYZ': 'imagebam-gallery.html' });
+    const images = await imageBamResolver.expandGallery!('https://www.imagebam.com/view/GA3XYZ', context);
+    assert.deepEqual(images, [
+      { hostingPage: 'https://www.imagebam.com/view/MEXK2QF', previewUrl: 'https://thumbs4.imagebam.com/3f/a1/9c/MEXK2QF_t.jpg' },
+      { hostingPage: 'https://www.imagebam.com/view/MEXK2QG', previewUrl: 'https://thumbs4.imagebam.com/3f/a1/9d/MEXK2QG_t.jpg' },
+      { hostingPage: 'https://www.imagebam.com/view/MEXK2QH', previewUrl: 'https://thumbs4.imagebam.com/3f/a1/9e/MEXK2QH_t.jpg' },
+    ]);
+  });
+
+  it('matches its thumbnail images', () => {
+    assert.ok(imageBamResolver.matchesThumbnail(new URL('https://thumbs4.imagebam.com/3f/a1/9c/MEXK2QF_t.jpg')));
+    assert.ok(imageBamResolver.matchesThumbnail(new URL('https://thumbs2.imagebam.com/a1b/2c3/a1b2c3d4e5_t.jpg')));
+    assert.ok(!imageBamResolver.matchesThumbnail(new URL('https://images4.imagebam.com/3f/a1/9c/MEXK2QF_o.jpg')));
+    assert.ok(!imageBamResolver.matchesThumbnail(new URL('https://www.imagebam.com/view/MEXK2QF')));
+  });
+
+  it('builds thumbnails for legacy image links', () => {
+    assert.equal(
+      imageBamResolver.buildThumbnailUrl('https://www.imagebam.com/image/a1b2c3d4e5'),
+      'https://thumbs2.imagebam.com/a1b/2c3/a1b2c3d4e5_t.jpg',
+    );
+  });
+
+  it('takes the filename from the full image', () => {
+    assert.equal(
+      imageBamResolver.filenameHint('https://www.imagebam.com/view/MEXK2QF', 'https://images4.imagebam.com/3f/a1/9c/MEXK2QF_o.jpg'),
+      'MEXK2QF_o.jpg',
+    );
+    assert.equal(imageBamResolver.filenameHint('https://www.imagebam.com/view/MEXK2QF'), null);
+  });
+});
@@ -0,0 +1,73 @@
+import type { HostResolver } from './types';
+import { matchesDomain, firstImageSrc, defaultFilenameHint, collectGalleryPages, resolveImageSrc, missingImageError } from './helpers';
+
+// Galleries: /view/GA... on the current site, /gallery/... on the old one
+const GALLERY_PATH = /^\/(?:view\/(G[a-zA-Z0-9]+)|gallery\/([a-zA-Z0-9]+))/;
+
+export const imageBamResolver: HostResolver = {
+  site: 'imagebam.com',
+
+  matches(url) {
+    return matchesDomain(url, 'imagebam.com');
+  },
+
+  linkPattern: /https?:\/\/(?:www\.)?imagebam\.com\/(?:image|view|gallery)\/[a-zA-Z0-9]+/g,
+
+  async resolveFullImage(pageUrl, context) {
+    const $ = await context.fetchPage(pageUrl);
+    // ImageBam stores the full image URL in various places
+    const imageUrl = firstImageSrc($, [
+      '.main-image img',
+      '#image',
+      'img[src*="images2.imagebam.com"]',
+      'img[src*="images3.imagebam.com"]',
+      'img[src*="images4.imagebam.com"]',
+    ]);
+
+    if (!imageUrl) {
+      throw missingImageError($, 'ImageBam', '.alert-danger');
+    }
+    return imageUrl;
+  },
+
+  imageId(url) {
+    if (GALLERY_PATH.test(url.pathname)) return null;
+    return url.pathname.match(/^\/(?:image|view)\/([a-zA-Z0-9]+)/)?.[1] ?? null;
+  },
+
+  galleryId(url) {
+    const match = url.pathname.match(GALLERY_PATH);
+    return match ? match[1] || match[2] : null;
+  },
+
+  async expandGallery(galleryUrl, context) {
+    return collectGalleryPages(galleryUrl, context, ($, pageUrl) =>
+      $('a[href*="/view/M"], a[href*="/image/"]').map((_, element) => {
+        const src = $(element).find('img').first().attr('src');
+        return {
+          hostingPage: resolveImageSrc($(element).attr('href')!, pageUrl),
+          previewUrl: src ? resolveImageSrc(src, pageUrl) : undefined,
+        };
+      }).get(),
+    );
+  },
+
+  matchesThumbnail(url) {
+    // thumbs2.imagebam.com, thumbs4.imagebam.com, ...
+    return /^thumbs\d*\.imagebam\.com$/i.test(url.hostname);
+  },
+
+  buildThumbnailUrl(pageUrl) {
+    // URL format: https://www.imagebam.com/image/abc123
+    const match = pageUrl.match(/imagebam\.com\/image\/([a-zA-Z0-9]+)/);
+    if (!match) return null;
+
+    // ImageBam thumbnail format: https://thumbs2.imagebam.com/abc/123/abc123_t.jpg
+    const imageId = match[1];
+    const prefix = imageId.substring(0, 3);
+    const suffix = imageId.substring(3, 6);
+    return `https://thumbs2.imagebam.com/${prefix}/${suffix}/${imageId}_t.jpg`;
+  },
+
+  filenameHint: defaultFilenameHint,
+};
@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { imageTwistResolver } from './imagetwist';
+import { fixtureContext } from './fixtures/context';
+
+const PAGE_URL = 'https://imagetwist.com/9tq2w8ph3jzk/IMG_0082.jpg';
+
+describe('imageTwistResolver', () => {
+  it('matches imagetwist.com pages', () => {
+    assert.ok(imageTwistResolver.matches(new URL(PAGE_URL)));
+    assert.ok(!imageTwistResolver.matches(new URL('https://imgbox.com/Xq7Rt2Lm')));
+  });
+
+  it('resolves the picture rather than the logo', async () => {
+    const context = fixtureContext({ [PAGE_URL]: 'imagetwist-image.html' });
+    assert.equal(
+      await imageTwistResolver.resolveFullImage(PAGE_URL, context),
+      'https://i9.imagetwist.com/i/05411/9tq2w8ph3jzk.jpg/IMG_0082.jpg',
+    );
+  });
+
+  it('reads the image ID', () => {
+    assert.equal(imageTwistResolver.imageId!(new URL(PAGE_URL)), '9tq2w8ph3jzk');
+  });
+
+  it('matches its thumbnail images', () => {
+    assert.ok(imageTwistResolver.matchesThumbnail(new URL('https://img119.imagetwist.com/th/05411/9tq2w8ph3jzk.jpg')));
+    assert.ok(!imageTwistResolver.matchesThumbnail(new URL('https://imagetwist.com/9tq2w8ph3jzk/IMG_0082.jpg')));
+    assert.ok(!imageTwistResolver.matchesThumbnail(new URL('https://i9.imagetwist.com/i/05411/9tq2w8ph3jzk.jpg/IMG_0082.jpg')));
+  });
+
+  it('has no thumbnail scheme', () => {
+    assert.equal(imageTwistResolver.buildThumbnailUrl(PAGE_URL), null);
+  });
+
+  it('keeps the original name from the page link', () => {
+    assert.equal(imageTwistResolver.filenameHint(PAGE_URL), 'IMG_0082.jpg');
+  });
+});
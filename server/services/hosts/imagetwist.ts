@@ -0,0 +1,35 @@
+import type { HostResolver } from './types';
+import { matchesDomain, firstImageSrc, defaultFilenameHint, missingImageError } from './helpers';
+
+export const imageTwistResolver: HostResolver = {
+  site: 'imagetwist.com',
+
+  matches(url) {
+    return matchesDomain(url, 'imagetwist.com');
+  },
+
+  async resolveFullImage(pageUrl, context) {
+    const $ = await context.fetchPage(pageUrl);
+    const imageUrl = firstImageSrc($, ['.pic img', '#image']);
+    if (!imageUrl) {
+      throw missingImageError($, 'ImageTwist');
+    }
+    return imageUrl;
+  },
+
+  imageId(url) {
+    return url.pathname.match(/^\/([a-z0-9]+)/i)?.[1] ?? null;
+  },
+
+  matchesThumbnail(url) {
+    // Thumbnails sit under /th/ on the numbered image servers, e.g. img119.imagetwist.com/th/...
+    return matchesDomain(url, 'imagetwist.com') && url.pathname.startsWith('/th/');
+  },
+
+  buildThumbnailUrl() {
+    return null;
+  },
+
+  // Page links look like imagetwist.com/<id>/<original-name>.jpg
+  filenameHint: defaultFilenameHint,
+};
@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { imageVenueResolver } from './imagevenue';
+import { fixtureContext } from './fixtures/context';
+
+const PAGE_URL = 'https://www.imagevenue.com/ME17QX4C';
+const LEGACY_URL = 'https://img187.imagevenue.com/img.php?image=48211_beach_07_122_1004lo.jpg';
+
+describe('imageVenueResolver', () => {
+  it('matches current and legacy pages', () => {
+    assert.ok(imageVenueResolver.matches(new URL(PAGE_URL)));
+    assert.ok(imageVenueResolver.matches(new URL(LEGACY_URL)));
+    assert.ok(!imageVenueResolver.matches(new URL('https://imagevenue.example.com/ME17QX4C')));
+  });
+
+  it('resolves the main image rather than the ad above it', async () => {
+    const context = fixtureContext({ [PAGE_URL]: 'imagevenue-image.html' });
+    assert.equal(
+      await imageVenueResolver.resolveFullImage(PAGE_URL, context),
+      'https://cdn-images.imagevenue.com/4a/91/c2/ME17QX4C_o.jpg',
+    );
+  });
+
+  it('follows the "continue to your image" interstitial', async () => {
+    const context = fixtureContext({
+      [PAGE_URL]: 'imagevenue-interstitial.html',
+      'https://www.imagevenue.com/ME17QX4C?continue=1': 'imagevenue-image.html',
+    });
+    assert.equal(
+      await imageVenueResolver.resolveFullImage(PAGE_URL, context),
+      'https://cdn-images.imagevenue.com/4a/91/c2/ME17QX4C_o.jpg',
+    );
+    assert.deepEqual(context.requests[1].options?.headers, { Referer: PAGE_URL });
+  });
+
+  it('gives up when the interstitial leads nowhere', async () => {
+    const context = fixtureContext({
+      [PAGE_URL]: 'imagevenue-interstitial.html',
+      'https://www.imagevenue.com/ME17QX4C?continue=1': 'imagevenue-interstitial.html',
+    });
+    await assert.rejects(imageVenueResolver.resolveFullImage(PAGE_URL, context), /Could not find image on ImageVenue page/);
+  });
+
+  it('resolves relative image sources on legacy pages', async () => {
+    const context = fixtureContext({ [LEGACY_URL]: 'imagevenue-legacy.html' });
+    assert.equal(
+      await imageVenueResolver.resolveFullImage(LEGACY_URL, context),
+      'https://img187.imagevenue.com/aAfkjfp01fo1i-3721/loc1004/48211_beach_07_122_1004lo.jpg',
+    );
+  });
+
+  it('reads the image ID from both link shapes', () => {
+    assert.equal(imageVenueResolver.imageId!(new URL(PAGE_URL)), 'ME17QX4C');
+    assert.equal(imageVenueResolver.imageId!(new URL(LEGACY_URL)), '48211_beach_07_122_1004lo.jpg');
+  });
+
+  it('matches its thumbnail images', () => {
+    assert.ok(imageVenueResolver.matchesThumbnail(new URL('https://cdn-thumbs.imagevenue.com/4a/91/c2/ME17QX4C_t.jpg')));
+    assert.ok(imageVenueResolver.matchesThumbnail(new URL('https://img187.imagevenue.com/loc1004/th_48211_beach_07_122_1004lo.jpg')));
+    assert.ok(!imageVenueResolver.matchesThumbnail(new URL('https://www.imagevenue.com/ME17QX4C')));
+    assert.ok(!imageVenueResolver.matchesThumbnail(new URL('https://cdn-images.imagevenue.com/4a/91/c2/ME17QX4C_o.jpg')));
+  });
+
+  it('builds thumbnails for legacy links', () => {
+    assert.equal(
+      imageVenueResolver.buildThumbnailUrl(LEGACY_URL),
+      'https://img187.imagevenue.com/loc1004/th_48211_beach_07_122_1004lo.jpg',
+    );
+    assert.equal(imageVenueResolver.buildThumbnailUrl(PAGE_URL), null);
+  });
+
+  it('takes the filename from the image parameter, then the full image', () => {
+    assert.equal(imageVenueResolver.filenameHint(LEGACY_URL), '48211_beach_07_122_1004lo.jpg');
+    assert.equal(
+      imageVenueResolver.filenameHint(PAGE_URL, 'https://cdn-images.imagevenue.com/4a/91/c2/ME17QX4C_o.jpg'),
+      'ME17QX4C_o.jpg',
+    );
+  });
+});
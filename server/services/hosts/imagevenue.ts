@@ -0,0 +1,77 @@
+import type * as cheerio from 'cheerio';
+import type { HostResolver } from './types';
+import { matchesDomain, resolveImageSrc, defaultFilenameHint, followContinuePage, missingImageError } from './helpers';
+
+// Covers both the current layout (www.imagevenue.com/ME1A2B3C) and legacy img.php pages
+const IMAGE_SELECTORS = [
+  '#main-image',
+  'img.card-img-top',
+  '#thepic',
+  'img[src*="cdn-images.imagevenue.com"]',
+];
+
+function findMainImage($: cheerio.CheerioAPI, pageUrl: string): string | undefined {
+  for (const selector of IMAGE_SELECTORS) {
+    const src = $(selector).first().attr('src');
+    if (src) return resolveImageSrc(src, pageUrl);
+  }
+  return undefined;
+}
+
+export const imageVenueResolver: HostResolver = {
+  site: 'imagevenue.com',
+
+  matches(url) {
+    return matchesDomain(url, 'imagevenue.com');
+  },
+
+  async resolveFullImage(pageUrl, context) {
+    const $ = await context.fetchPage(pageUrl);
+    let imageUrl = findMainImage($, pageUrl);
+
+    // ImageVenue sometimes shows a "Continue to your image" page before the real one
+    if (!imageUrl) {
+      const $continued = await followContinuePage($, pageUrl, context);
+      imageUrl = $continued ? findMainImage($continued, pageUrl) : undefined;
+    }
+
+    if (!imageUrl) {
+      throw missingImageError($, 'ImageVenue');
+    }
+    return imageUrl;
+  },
+
+  imageId(url) {
+    return url.searchParams.get('image') || url.pathname.match(/^\/(ME[A-Z0-9]+)/i)?.[1] || null;
+  },
+
+  matchesThumbnail(url) {
+    // Current thumbnails are on cdn-thumbs.imagevenue.com, legacy ones are th_ files on the image servers
+    return url.hostname.toLowerCase() === 'cdn-thumbs.imagevenue.com' ||
+      (matchesDomain(url, 'imagevenue.com') && /\/th_[^/]+$/.test(url.pathname));
+  },
+
+  buildThumbnailUrl(pageUrl) {
+    // Legacy links: imgNNN.imagevenue.com/img.php?image=12345_name_122_1004lo.jpg
+    // have thumbnails at imgNNN.imagevenue.com/loc1004/th_12345_name_122_1004lo.jpg
+    try {
+      const url = new URL(pageUrl);
+      const image = url.searchParams.get('image');
+      const location = image?.match(/_(\d+)lo\.[a-z]+$/i);
+      if (!image || !location) return null;
+      return `https://${url.hostname}/loc${location[1]}/th_${image}`;
+    } catch {
+      return null;
+    }
+  },
+
+  filenameHint(pageUrl, fullImageUrl) {
+    try {
+      const image = new URL(pageUrl).searchParams.get('image');
+      if (image) return image;
+    } catch {
+      // Fall through to the default hint
+    }
+    return defaultFilenameHint(pageUrl, fullImageUrl);
+  },
+};
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { imgBoxResolver } from './imgbox';
+import { fixtureContext } from './fixtures/context';
+
+describe('imgBoxResolver', () => {
+  it('matches imgbox.com pages', () => {
+    assert.ok(imgBoxResolver.matches(new URL('https://imgbox.com/Xq7Rt2Lm')));
+    assert.ok(imgBoxResolver.matches(new URL('https://imgbox.com/g/aB1cD2eF3g')));
+    assert.ok(!imgBoxResolver.matches(new URL('https://imagebam.com/view/MEXK2QF')));
+  });
+
+  it('resolves the full image', async () => {
+    const context = fixtureContext({ 'https://imgbox.com/Xq7Rt2Lm': 'imgbox-image.html' });
+    const imageUrl = await imgBoxResolver.resolveFullImage('https://imgbox.com/Xq7Rt2Lm', context);
+    assert.equal(imageUrl, 'https://images2.imgbox.com/4c/8a/Xq7Rt2Lm_o.jpg');
+  });
+
+  it('follows gallery pagination and skips the pagination links themselves', async () => {
+    const context = fixtureContext({
+      'https://imgbox.com/g/aB1cD2eF3g': 'imgbox-gallery-1.html',
+      'https://imgbox.com/g/aB1cD2eF3g?page=2': 'imgbox-gallery-2.html',
+    });
+    const images = await imgBoxResolver.expandGallery!('https://imgbox.com/g/aB1cD2eF3g', context);
+    assert.deepEqual(images.map(image => image.hostingPage), [
+      'https://imgbox.com/Xq7Rt2Lm',
+      'https://imgbox.com/Yb3Kd9Pw',
+      'https://imgbox.com/Zc8Hn4Qs',
+    ]);
+    assert.equal(images[0].previewUrl, 'https://thumbs2.imgbox.com/4c/8a/Xq7Rt2Lm_t.jpg');
+  });
+
+  it('reads image and gallery IDs', () => {
+    assert.equal(imgBoxResolver.imageId!(new URL('https://imgbox.com/Xq7Rt2Lm')), 'Xq7Rt2Lm');
+    assert.equal(imgBoxResolver.imageId!(new URL('https://imgbox.com/g/aB1cD2eF3g')), null);
+    assert.equal(imgBoxResolver.galleryId!(new URL('https://imgbox.com/g/aB1cD2eF3g')), 'aB1cD2eF3g');
+  });
+
+  it('matches its thumbnail images', () => {
+    assert.ok(imgBoxResolver.matchesThumbnail(new URL('https://thumbs2.imgbox.com/4c/8a/Xq7Rt2Lm_t.jpg')));
+    assert.ok(!imgBoxResolver.matchesThumbnail(new URL('https://imgbox.com/Xq7Rt2Lm')));
+    assert.ok(!imgBoxResolver.matchesThumbnail(new URL('https://images2.imgbox.com/4c/8a/Xq7Rt2Lm_o.jpg')));
+  });
+
+  it('builds thumbnails from the image ID', () => {
+    assert.equal(imgBoxResolver.buildThumbnailUrl('https://imgbox.com/Xq7Rt2Lm'), 'https://thumbs2.imgbox.com/t_Xq7Rt2Lm.jpg');
+    assert.equal(imgBoxResolver.buildThumbnailUrl('https://imgbox.com/g/aB1cD2eF3g'), null);
+  });
+
+  it('takes the filename from the full image', () => {
+    assert.equal(
+      imgBoxResolver.filenameHint('https://imgbox.com/Xq7Rt2Lm', 'https://images2.imgbox.com/4c/8a/Xq7Rt2Lm_o.jpg'),
+      'Xq7Rt2Lm_o.jpg',
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import type { HostResolver } from './types';
+import { matchesDomain, firstImageSrc, defaultFilenameHint, collectGalleryPages, resolveImageSrc, missingImageError } from './helpers';
+
+const GALLERY_PATH = /^\/g\/([a-zA-Z0-9]+)/;
+
+export const imgBoxResolver: HostResolver = {
+  site: 'imgbox.com',
+
+  matches(url) {
+    return matchesDomain(url, 'imgbox.com');
+  },
+
+  linkPattern: /https?:\/\/(?:www\.)?imgbox\.com\/(?:g\/)?[a-zA-Z0-9]+/g,
+
+  async resolveFullImage(pageUrl, context) {
+    const $ = await context.fetchPage(pageUrl);
+    const imageUrl = firstImageSrc($, ['#img', '.image img']);
+    if (!imageUrl) {
+      throw missingImageError($, 'ImgBox');
+    }
+    return imageUrl;
+  },
+
+  imageId(url) {
+    if (GALLERY_PATH.test(url.pathname)) return null;
+    return url.pathname.match(/^\/([a-zA-Z0-9]+)/)?.[1] ?? null;
+  },
+
+  galleryId(url) {
+    return url.pathname.match(GALLERY_PATH)?.[1] ?? null;
+  },
+
+  async expandGallery(galleryUrl, context) {
+    // Gallery thumbnails link to each image's own page, e.g. /AbCd1234
+    return collectGalleryPages(galleryUrl, context, ($, pageUrl) =>
+      $('#gallery-view-content a, .gallery-view a').map((_, element) => {
+        const href = $(element).attr('href') || '';
+        if (!/^(?:https?:\/\/(?:www\.)?imgbox\.com)?\/[a-zA-Z0-9]+$/.test(href)) return [];
+        const src = $(element).find('img').first().attr('src');
+        return {
+          hostingPage: resolveImageSrc(href, pageUrl),
+          previewUrl: src ? resolveImageSrc(src, pageUrl) : undefined,
+        };
+      }).get(),
+    );
+  },
+
+  matchesThumbnail(url) {
+    return /^thumbs\d*\.imgbox\.com$/i.test(url.hostname);
+  },
+
+  buildThumbnailUrl(pageUrl) {
+    const match = pageUrl.match(/imgbox\.com\/([a-zA-Z0-9]+)(?:$|[?#])/);
+    return match ? `https://thumbs2.imgbox.com/t_${match[1]}.jpg` : null;
+  },
+
+  filenameHint: defaultFilenameHint,
+};
@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { imgurResolver } from './imgur';
+import { fixtureContext } from './fixtures/context';
+
+describe('imgurResolver', () => {
+  it('matches imgur.com pages', () => {
+    assert.ok(imgurResolver.matches(new URL('https://imgur.com/aB3dE9x')));
+    assert.ok(imgurResolver.matches(new URL('https://i.imgur.com/aB3dE9x.png')));
+    assert.ok(!imgurResolver.matches(new URL('https://notimgur.com/aB3dE9x')));
+  });
+
+  it('resolves the image the page links as its image_src', async () => {
+    const context = fixtureContext({ 'https://imgur.com/aB3dE9x': 'imgur-image.html' });
+    assert.equal(await imgurResolver.resolveFullImage('https://imgur.com/aB3dE9x', context), 'https://i.imgur.com/aB3dE9x.png');
+  });
+
+  it('matches its thumbnail images', () => {
+    assert.ok(imgurResolver.matchesThumbnail(new URL('https://i.imgur.com/aB3dE9xs.jpg')));
+    assert.ok(!imgurResolver.matchesThumbnail(new URL('https://imgur.com/aB3dE9x')));
+  });
+
+  it('builds the small square thumbnail', () => {
+    assert.equal(imgurResolver.buildThumbnailUrl('https://imgur.com/aB3dE9x'), 'https://i.imgur.com/aB3dE9xs.jpg');
+    assert.equal(imgurResolver.imageId!(new URL('https://imgur.com/aB3dE9x')), 'aB3dE9x');
+  });
+
+  it('takes the filename from the full image', () => {
+    assert.equal(imgurResolver.filenameHint('https://imgur.com/aB3dE9x', 'https://i.imgur.com/aB3dE9x.png'), 'aB3dE9x.png');
+  });
+});
@@ -0,0 +1,42 @@
+import type { HostResolver } from './types';
+import { matchesDomain, defaultFilenameHint } from './helpers';
+
+export const imgurResolver: HostResolver = {
+  site: 'imgur.com',
+
+  matches(url) {
+    return matchesDomain(url, 'imgur.com');
+  },
+
+  async resolveFullImage(pageUrl, context) {
+    const $ = await context.fetchPage(pageUrl);
+
+    // Try to find the direct image URL
+    const directImage = $('link[rel="image_src"]').attr('href');
+    if (directImage) return directImage;
+
+    // Fallback: construct direct URL from imgur ID
+    const idMatch = pageUrl.match(/imgur\.com\/([a-zA-Z0-9]+)/);
+    if (idMatch) {
+      return `https://i.imgur.com/${idMatch[1]}.jpg`;
+    }
+
+    throw new Error('Could not extract imgur image URL');
+  },
+
+  imageId(url) {
+    return url.pathname.match(/^\/([a-zA-Z0-9]{5,})/)?.[1] ?? null;
+  },
+
+  matchesThumbnail(url) {
+    return url.hostname.toLowerCase() === 'i.imgur.com';
+  },
+
+  buildThumbnailUrl(pageUrl) {
+    // Imgur serves a small square thumbnail with an "s" suffix on the image ID
+    const match = pageUrl.match(/imgur\.com\/([a-zA-Z0-9]{5,})(?:\.[a-z]+)?$/);
+    return match ? `https://i.imgur.com/${match[1]}s.jpg` : null;
+  },
+
+  filenameHint: defaultFilenameHint,
+};
@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { imxResolver } from './imx';
+import { fixtureContext } from './fixtures/context';
+
+const PAGE_URL = 'https://imx.to/i/5kq3nv';
+
+describe('imxResolver', () => {
+  it('matches image pages but not image files', () => {
+    assert.ok(imxResolver.matches(new URL(PAGE_URL)));
+    assert.ok(imxResolver.matches(new URL('https://imx.to/img-5kq3nv.html')));
+    assert.ok(!imxResolver.matches(new URL('https://imx.to/u/i/2024/03/14/5kq3nv.jpg')));
+  });
+
+  it('finds both link shapes in text', () => {
+    const text = `${PAGE_URL} https://imx.to/img-7abcde.html`;
+    assert.deepEqual(text.match(imxResolver.linkPattern!), [PAGE_URL, 'https://imx.to/img-7abcde.html']);
+  });
+
+  it('submits the continue form to reach the image', async () => {
+    const context = fixtureContext({
+      [PAGE_URL]: 'imx-continue.html',
+      [`POST ${PAGE_URL}`]: 'imx-image.html',
+    });
+    assert.equal(await imxResolver.resolveFullImage(PAGE_URL, context), 'https://i.imx.to/i/2024/03/14/5kq3nv.jpg');
+    assert.equal(context.requests[1].options?.data, 'imgContinue=Continue+to+image+...+');
+  });
+
+  it('reads the image ID from both link shapes', () => {
+    assert.equal(imxResolver.imageId!(new URL(PAGE_URL)), '5kq3nv');
+    assert.equal(imxResolver.imageId!(new URL('https://imx.to/img-5kq3nv.html')), '5kq3nv');
+  });
+
+  it('matches its thumbnail images', () => {
+    assert.ok(imxResolver.matchesThumbnail(new URL('https://imx.to/u/t/2024/03/14/5kq3nv.jpg')));
+    assert.ok(imxResolver.matchesThumbnail(new URL('https://imx.to/u/t/5kq3nv.jpg')));
+    assert.ok(!imxResolver.matchesThumbnail(new URL('https://imx.to/i/5kq3nv')));
+    assert.ok(!imxResolver.matchesThumbnail(new URL('https://imx.to/u/i/2024/03/14/5kq3nv.jpg')));
+  });
+
+  it('builds the thumbnail from the image ID', () => {
+    assert.equal(imxResolver.buildThumbnailUrl(PAGE_URL), 'https://imx.to/u/t/5kq3nv.jpg');
+    assert.equal(imxResolver.buildThumbnailUrl('https://imx.to/img-5kq3nv.html'), 'https://imx.to/u/t/5kq3nv.jpg');
+  });
+
+  it('takes the filename from the full image', () => {
+    assert.equal(imxResolver.filenameHint(PAGE_URL, 'https://i.imx.to/i/2024/03/14/5kq3nv.jpg'), '5kq3nv.jpg');
+  });
+});
@@ -0,0 +1,54 @@
+import type * as cheerio from 'cheerio';
+import type { HostResolver } from './types';
+import { matchesDomain, firstImageSrc, defaultFilenameHint, followContinuePage, missingImageError } from './helpers';
+
+// Page links look like imx.to/i/<id> or the older imx.to/img-<id>.html
+const PAGE_PATTERN = /imx\.to\/(?:i\/|img-)([a-zA-Z0-9]+)/;
+
+const IMAGE_SELECTORS = ['img.centred', 'img.centred_resized', '#container img[src*="/u/i/"]'];
+
+function findMainImage($: cheerio.CheerioAPI): string | undefined {
+  return firstImageSrc($, IMAGE_SELECTORS);
+}
+
+export const imxResolver: HostResolver = {
+  site: 'imx.to',
+
+  matches(url) {
+    return matchesDomain(url, 'imx.to') && !url.pathname.startsWith('/u/');
+  },
+
+  linkPattern: /https?:\/\/(?:www\.)?imx\.to\/(?:i\/[a-zA-Z0-9]+|img-[a-zA-Z0-9]+\.html)/g,
+
+  async resolveFullImage(pageUrl, context) {
+    const $ = await context.fetchPage(pageUrl);
+    let imageUrl = findMainImage($);
+
+    // imx.to always asks to "Continue to your image" before showing it
+    if (!imageUrl) {
+      const $continued = await followContinuePage($, pageUrl, context);
+      imageUrl = $continued ? findMainImage($continued) : undefined;
+    }
+
+    if (!imageUrl) {
+      throw missingImageError($, 'IMX');
+    }
+    return imageUrl;
+  },
+
+  imageId(url) {
+    return url.pathname.match(/^\/(?:i\/|img-)([a-zA-Z0-9]+)/)?.[1] ?? null;
+  },
+
+  matchesThumbnail(url) {
+    return matchesDomain(url, 'imx.to') && url.pathname.startsWith('/u/t/');
+  },
+
+  buildThumbnailUrl(pageUrl) {
+    // Thumbnails are served by image ID under /u/t/, next to the full images under /u/i/
+    const match = pageUrl.match(PAGE_PATTERN);
+    return match ? `https://imx.to/u/t/${match[1]}.jpg` : null;
+  },
+
+  filenameHint: defaultFilenameHint,
+};
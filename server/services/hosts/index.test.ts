@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { hostRegistry } from './index';
+
+describe('hostRegistry', () => {
+  it('hands each link to its host and direct files to the direct resolver', () => {
+    assert.equal(hostRegistry.getHostingSite('https://www.imagebam.com/view/MEXK2QF'), 'imagebam.com');
+    assert.equal(hostRegistry.getHostingSite('https://pixhost.to/show/402/112233445_beach-07.jpg'), 'pixhost.to');
+    assert.equal(hostRegistry.getHostingSite('https://cdn.example.com/sets/beach/01.jpg'), 'direct');
+  });
+
+  it('compares differently shaped links to one image as equal', () => {
+    assert.equal(
+      hostRegistry.canonicalImageId('https://imx.to/i/5kq3nv'),
+      hostRegistry.canonicalImageId('http://www.imx.to/img-5kq3nv.html'),
+    );
+  });
+
+  it('lists a bare link once even when another host\'s pattern also catches it', () => {
+    // The page link ends in .jpg, so the direct image pattern sees it too
+    const text = 'Set 7: https://pixhost.to/show/402/112233445_beach-07.jpg\nhttps://imx.to/i/5kq3nv';
+    assert.deepEqual(hostRegistry.findLinksInText(text, true), [
+      'https://pixhost.to/show/402/112233445_beach-07.jpg',
+      'https://imx.to/i/5kq3nv',
+    ]);
+  });
+
+  it('takes direct image links from post text only', () => {
+    const text = 'https://cdn.example.com/sets/beach/01.jpg https://imx.to/i/5kq3nv';
+    assert.deepEqual(hostRegistry.findLinksInText(text, true), ['https://imx.to/i/5kq3nv', 'https://cdn.example.com/sets/beach/01.jpg']);
+    assert.deepEqual(hostRegistry.findLinksInText(text), ['https://imx.to/i/5kq3nv']);
+  });
+
+  it('accepts direct image links inside posts but not as hosting links from clients', () => {
+    assert.ok(hostRegistry.isImageHostingUrl('https://www.imagebam.com/view/MEXK2QF'));
+    assert.ok(!hostRegistry.isImageHostingUrl('https://cdn.example.com/sets/beach/01.jpg'));
+    assert.ok(hostRegistry.isPostImageUrl('https://cdn.example.com/sets/beach/01.jpg'));
+  });
+
+  it('never treats addresses inside the server\'s network as images', () => {
+    for (const url of [
+      'http://127.0.0.1:5432/x.jpg',
+      'http://169.254.169.254/latest/meta-data.png',
+      'http://10.0.0.5/photo.jpg',
+      'http://localhost/photo.jpg',
+      'http://[::1]/photo.jpg',
+      'https://cdn.example.com:8443/photo.jpg',
+    ]) {
+      assert.ok(!hostRegistry.isPostImageUrl(url), url);
+      assert.ok(!hostRegistry.isImageHostingUrl(url), url);
+      assert.ok(!hostRegistry.isThumbnailUrl(url), url);
+    }
+  });
+
+  it('refuses to fetch an unknown page on a private address', async () => {
+    await assert.rejects(hostRegistry.resolveFullImageUrl('http://192.168.1.1/admin'), /not a public web address/);
+  });
+
+  it('lets the thumbnail proxy fetch thumbnails but not hosting pages', () => {
+    assert.ok(hostRegistry.isThumbnailUrl('https://t1.pixhost.to/thumbs/402/112233445_beach-07.jpg'));
+    assert.ok(hostRegistry.isThumbnailUrl('https://s8d3.turboimg.net/t1/90817263_Beach_Set_12.jpg'));
+    assert.ok(hostRegistry.isThumbnailUrl('https://imx.to/u/t/2024/03/14/5kq3nv.jpg'));
+    assert.ok(hostRegistry.isThumbnailUrl('https://vipr.im/th/00412/8x2kd0q7mbrw.jpg'));
+    assert.ok(!hostRegistry.isThumbnailUrl('https://www.imagebam.com/view/MEXK2QF'));
+    assert.ok(!hostRegistry.isThumbnailUrl('https://cdn.example.com/sets/beach/01.jpg'));
+    assert.ok(!hostRegistry.isThumbnailUrl('not a url'));
+  });
+});
@@ -0,0 +1,180 @@
+import * as cheerio from 'cheerio';
+import { requestScheduler } from '../request-scheduler';
+import type { HostResolver, ResolveContext, FetchPageOptions, GalleryImage } from './types';
+import { defaultFilenameHint } from './helpers';
+import { extractGenericImageUrl } from './generic';
+import { assertPublicWebUrl, PUBLIC_WEB_REQUEST } from '../public-address';
+import { imageBamResolver } from './imagebam';
+import { imgBoxResolver } from './imgbox';
+import { imgurResolver } from './imgur';
+import { imageTwistResolver } from './imagetwist';
+import { postImgResolver } from './postimg';
+import { imageVenueResolver } from './imagevenue';
+import { turboImageHostResolver } from './turboimagehost';
+import { pixhostResolver } from './pixhost';
+import { imxResolver } from './imx';
+import { viprResolver } from './vipr';
+import { directImageResolver } from './direct';
+
+export type { HostResolver, ResolveContext, FetchPageOptions, GalleryImage } from './types';
+export { ImageRemovedError } from './errors';
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+export class HostResolverRegistry {
+  private resolvers: HostResolver[] = [];
+
+  register(resolver: HostResolver): void {
+    this.resolvers.push(resolver);
+  }
+
+  find(url: string): HostResolver | undefined {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return undefined;
+    }
+    return this.resolvers.find(resolver => resolver.matches(parsed));
+  }
+
+  // Links accepted from anywhere, including clients: pages of the known image hosts
+  isImageHostingUrl(url: string): boolean {
+    const resolver = this.find(url);
+    return resolver !== undefined && !resolver.postOnly;
+  }
+
+  // Domains of the hosts whose page links clients may send; the resolvers still judge each link's path
+  hostingSites(): string[] {
+    return this.resolvers.filter(resolver => !resolver.postOnly).map(resolver => resolver.site);
+  }
+
+  // Links accepted inside a scraped post, which also covers images the poster linked or embedded directly
+  isPostImageUrl(url: string): boolean {
+    return this.find(url) !== undefined;
+  }
+
+  // Whether the thumbnail proxy may fetch the URL: only thumbnail images of a known host
+  isThumbnailUrl(url: string): boolean {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+    return /^https?:$/.test(parsed.protocol) && this.resolvers.some(resolver => resolver.matchesThumbnail(parsed));
+  }
+
+  // Bare links in text; post-only links count only when the text is a post's own content
+  findLinksInText(text: string, inPost = false): string[] {
+    const links = new Set<string>();
+    for (const resolver of this.resolvers) {
+      if (!resolver.linkPattern || (resolver.postOnly && !inPost)) continue;
+      // A pattern can also catch another host's links, such as thumbnail files for the direct image pattern
+      text.match(resolver.linkPattern)?.forEach(link => {
+        if (this.find(link) === resolver) links.add(link);
+      });
+    }
+    return Array.from(links);
+  }
+
+  getHostingSite(url: string): string {
+    const resolver = this.find(url);
+    if (resolver) return resolver.site;
+
+    try {
+      return new URL(url).hostname.replace('www.', '');
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  async resolveFullImageUrl(pageUrl: string, signal?: AbortSignal): Promise<string> {
+    const context = this.createContext(signal);
+    const resolver = this.find(pageUrl);
+    if (resolver) {
+      return resolver.resolveFullImage(pageUrl, context);
+    }
+
+    // Generic fallback - look for largest image, on public servers only since the link came from a client
+    await assertPublicWebUrl(pageUrl);
+    return extractGenericImageUrl(await context.fetchPage(pageUrl));
+  }
+
+  // The gallery ID when the link is a gallery the host can expand, otherwise null
+  galleryId(pageUrl: string): string | null {
+    const resolver = this.find(pageUrl);
+    if (!resolver?.galleryId || !resolver.expandGallery) return null;
+    return resolver.galleryId(new URL(pageUrl));
+  }
+
+  async expandGallery(galleryUrl: string): Promise<GalleryImage[]> {
+    const resolver = this.find(galleryUrl);
+    if (!resolver?.expandGallery) {
+      throw new Error(`${galleryUrl} is not an expandable gallery`);
+    }
+    return resolver.expandGallery(galleryUrl, this.createContext());
+  }
+
+  // Stable key for de-duplicating links: the host's image ID where known, otherwise the link without its scheme and "www."
+  canonicalImageId(pageUrl: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(pageUrl);
+    } catch {
+      return pageUrl;
+    }
+
+    const resolver = this.find(pageUrl);
+    const imageId = resolver?.imageId?.(parsed);
+    if (resolver && imageId) {
+      return `${resolver.site}:${imageId}`;
+    }
+    const hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    return `${hostname}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+  }
+
+  buildPreviewUrl(pageUrl: string): string {
+    const thumbnailUrl = this.find(pageUrl)?.buildThumbnailUrl(pageUrl);
+    return thumbnailUrl || pageUrl; // Return original URL as fallback
+  }
+
+  filenameHint(pageUrl: string, fullImageUrl?: string): string | null {
+    const resolver = this.find(pageUrl);
+    return resolver
+      ? resolver.filenameHint(pageUrl, fullImageUrl)
+      : defaultFilenameHint(pageUrl, fullImageUrl);
+  }
+
+  // Page requests made for a download stop with it
+  private createContext(signal?: AbortSignal): ResolveContext {
+    return {
+      async fetchPage(url: string, options: FetchPageOptions = {}) {
+        const response = await requestScheduler.request<string>({
+          url,
+          method: options.method || 'GET',
+          data: options.data,
+          headers: { 'User-Agent': USER_AGENT, ...options.headers },
+          responseType: 'text',
+          timeout: 30000,
+          signal,
+          ...PUBLIC_WEB_REQUEST,
+        });
+        return cheerio.load(response.data);
+      },
+    };
+  }
+}
+
+export const hostRegistry = new HostResolverRegistry();
+hostRegistry.register(imageBamResolver);
+hostRegistry.register(imgBoxResolver);
+hostRegistry.register(imgurResolver);
+hostRegistry.register(imageTwistResolver);
+hostRegistry.register(postImgResolver);
+hostRegistry.register(imageVenueResolver);
+hostRegistry.register(turboImageHostResolver);
+hostRegistry.register(pixhostResolver);
+hostRegistry.register(imxResolver);
+hostRegistry.register(viprResolver);
+hostRegistry.register(directImageResolver);
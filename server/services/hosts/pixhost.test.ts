@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { pixhostResolver } from './pixhost';
+import { fixtureContext } from './fixtures/context';
+import { ImageRemovedError } from './errors';
+import { isRetryableError } from '../retry-policy';
+
+const PAGE_URL = 'https://pixhost.to/show/402/112233445_beach-07.jpg';
+
+describe('pixhostResolver', () => {
+  it('matches show pages only', () => {
+    assert.ok(pixhostResolver.matches(new URL(PAGE_URL)));
+    assert.ok(!pixhostResolver.matches(new URL('https://t1.pixhost.to/thumbs/402/112233445_beach-07.jpg')));
+  });
+
+  it('finds bare page links in text', () => {
+    const text = `Set 7: ${PAGE_URL} and more`;
+    assert.deepEqual(text.match(pixhostResolver.linkPattern!), [PAGE_URL]);
+  });
+
+  it('resolves the full image', async () => {
+    const context = fixtureContext({ [PAGE_URL]: 'pixhost-image.html' });
+    assert.equal(
+      await pixhostResolver.resolveFullImage(PAGE_URL, context),
+      'https://img71.pixhost.to/images/402/112233445_beach-07.jpg',
+    );
+  });
+
+  it('reports a removed image as removed, which is not retried', async () => {
+    const context = fixtureContext({ [PAGE_URL]: 'pixhost-removed.html' });
+    const error = await pixhostResolver.resolveFullImage(PAGE_URL, context).catch(error => error);
+    assert.ok(error instanceof ImageRemovedError);
+    assert.ok(!isRetryableError(error));
+  });
+
+  it('keeps a page it cannot read retryable even when its footer talks about removals', async () => {
+    const context = fixtureContext({ [PAGE_URL]: 'pixhost-new-layout.html' });
+    const error = await pixhostResolver.resolveFullImage(PAGE_URL, context).catch(error => error);
+    assert.ok(!(error instanceof ImageRemovedError));
+    assert.match(error.message, /Could not find image on Pixhost page/);
+    assert.ok(isRetryableError(error));
+  });
+
+  it('reads the image ID from folder and upload number', () => {
+    assert.equal(pixhostResolver.imageId!(new URL(PAGE_URL)), '402/112233445');
+  });
+
+  it('matches its thumbnail images', () => {
+    assert.ok(pixhostResolver.matchesThumbnail(new URL('https://t1.pixhost.to/thumbs/402/112233445_beach-07.jpg')));
+    assert.ok(pixhostResolver.matchesThumbnail(new URL('https://t74.pixhost.to/thumbs/402/112233445_beach-07.jpg')));
+    assert.ok(!pixhostResolver.matchesThumbnail(new URL('https://img71.pixhost.to/images/402/112233445_beach-07.jpg')));
+    assert.ok(!pixhostResolver.matchesThumbnail(new URL('https://pixhost.to/show/402/112233445_beach-07.jpg')));
+  });
+
+  it('builds the thumbnail from the page path', () => {
+    assert.equal(pixhostResolver.buildThumbnailUrl(PAGE_URL), 'https://t1.pixhost.to/thumbs/402/112233445_beach-07.jpg');
+  });
+
+  it('keeps the upload number in the filename so uploads under one name stay apart', () => {
+    assert.equal(pixhostResolver.filenameHint(PAGE_URL), '112233445_beach-07.jpg');
+    assert.notEqual(
+      pixhostResolver.filenameHint('https://pixhost.to/show/402/112233446_image.jpg'),
+      pixhostResolver.filenameHint('https://pixhost.to/show/402/112233447_image.jpg'),
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import type { HostResolver } from './types';
+import { matchesDomain, firstImageSrc, defaultFilenameHint, missingImageError } from './helpers';
+
+// Page links look like pixhost.to/show/<dir>/<id>_<original-name>.jpg
+const PAGE_PATTERN = /pixhost\.to\/show\/(\d+)\/([^/?#]+)/;
+
+export const pixhostResolver: HostResolver = {
+  site: 'pixhost.to',
+
+  matches(url) {
+    return matchesDomain(url, 'pixhost.to') && url.pathname.startsWith('/show/');
+  },
+
+  linkPattern: /https?:\/\/(?:www\.)?pixhost\.to\/show\/\d+\/[^\s"'<>\[\]]+/g,
+
+  async resolveFullImage(pageUrl, context) {
+    const $ = await context.fetchPage(pageUrl);
+    const imageUrl = firstImageSrc($, ['#image', 'img.image-img', 'img[src*=".pixhost.to/images/"]']);
+    if (!imageUrl) {
+      throw missingImageError($, 'Pixhost', '.error');
+    }
+    return imageUrl;
+  },
+
+  imageId(url) {
+    // The numeric upload prefix is unique within its folder
+    const match = url.pathname.match(/^\/show\/(\d+)\/(\d+)_/);
+    return match ? `${match[1]}/${match[2]}` : null;
+  },
+
+  matchesThumbnail(url) {
+    // t1.pixhost.to, t2.pixhost.to, ...
+    return /^t\d+\.pixhost\.to$/i.test(url.hostname) && url.pathname.startsWith('/thumbs/');
+  },
+
+  buildThumbnailUrl(pageUrl) {
+    // Thumbnails mirror the page path under /thumbs/ on the thumbnail servers
+    const match = pageUrl.match(PAGE_PATTERN);
+    return match ? `https://t1.pixhost.to/thumbs/${match[1]}/${match[2]}` : null;
+  },
+
+  // The numeric upload prefix stays, since posters often upload several images under one original name
+  filenameHint: defaultFilenameHint,
+};
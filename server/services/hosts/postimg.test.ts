@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { postImgResolver } from './postimg';
+import { fixtureContext } from './fixtures/context';
+
+const PAGE_URL = 'https://postimg.cc/Wq9Lk2Vn';
+
+describe('postImgResolver', () => {
+  it('matches postimg.cc pages', () => {
+    assert.ok(postImgResolver.matches(new URL(PAGE_URL)));
+    assert.ok(!postImgResolver.matches(new URL('https://postimages.org/')));
+  });
+
+  it('resolves the main image', async () => {
+    const context = fixtureContext({ [PAGE_URL]: 'postimg-image.html' });
+    assert.equal(await postImgResolver.resolveFullImage(PAGE_URL, context), 'https://i.postimg.cc/7Z4mGx2W/DSC-5120.jpg');
+  });
+
+  it('reads the image ID', () => {
+    assert.equal(postImgResolver.imageId!(new URL(PAGE_URL)), 'Wq9Lk2Vn');
+  });
+
+  it('matches its thumbnail images', () => {
+    assert.ok(postImgResolver.matchesThumbnail(new URL('https://i.postimg.cc/7Z4mGx2W/DSC-5120.jpg')));
+    assert.ok(!postImgResolver.matchesThumbnail(new URL('https://postimg.cc/Wq9Lk2Vn')));
+  });
+
+  it('has no thumbnail scheme', () => {
+    assert.equal(postImgResolver.buildThumbnailUrl(PAGE_URL), null);
+  });
+
+  it('takes the filename from the full image', () => {
+    assert.equal(postImgResolver.filenameHint(PAGE_URL, 'https://i.postimg.cc/7Z4mGx2W/DSC-5120.jpg'), 'DSC-5120.jpg');
+    assert.equal(postImgResolver.filenameHint(PAGE_URL), null);
+  });
+});
@@ -0,0 +1,33 @@
+import type { HostResolver } from './types';
+import { matchesDomain, firstImageSrc, defaultFilenameHint, missingImageError } from './helpers';
+
+export const postImgResolver: HostResolver = {
+  site: 'postimg.cc',
+
+  matches(url) {
+    return matchesDomain(url, 'postimg.cc');
+  },
+
+  async resolveFullImage(pageUrl, context) {
+    const $ = await context.fetchPage(pageUrl);
+    const imageUrl = firstImageSrc($, ['#main-image', '.image img']);
+    if (!imageUrl) {
+      throw missingImageError($, 'PostImg');
+    }
+    return imageUrl;
+  },
+
+  imageId(url) {
+    return url.pathname.match(/^\/([a-zA-Z0-9]+)/)?.[1] ?? null;
+  },
+
+  matchesThumbnail(url) {
+    return url.hostname.toLowerCase() === 'i.postimg.cc';
+  },
+
+  buildThumbnailUrl() {
+    return null;
+  },
+
+  filenameHint: defaultFilenameHint,
+};
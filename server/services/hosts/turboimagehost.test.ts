@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { turboImageHostResolver } from './turboimagehost';
+import { fixtureContext } from './fixtures/context';
+
+const PAGE_URL = 'https://www.turboimagehost.com/p/90817263/Beach_Set_12.jpg.html';
+
+describe('turboImageHostResolver', () => {
+  it('matches turboimagehost.com pages', () => {
+    assert.ok(turboImageHostResolver.matches(new URL(PAGE_URL)));
+    assert.ok(!turboImageHostResolver.matches(new URL('https://s8d3.turboimg.net/t1/90817263_Beach_Set_12.jpg')));
+  });
+
+  it('resolves the full image rather than the ad or the thumbnail', async () => {
+    const context = fixtureContext({ [PAGE_URL]: 'turboimagehost-image.html' });
+    assert.equal(
+      await turboImageHostResolver.resolveFullImage(PAGE_URL, context),
+      'https://s8d3.turboimg.net/sp/5e8b1c0d7a4f2e93/Beach_Set_12.jpg',
+    );
+  });
+
+  it('falls back to the og:image of pages that load the image by script', async () => {
+    const pageUrl = 'https://www.turboimagehost.com/p/90817264/Beach_Set_13.jpg.html';
+    const context = fixtureContext({ [pageUrl]: 'turboimagehost-og-only.html' });
+    assert.equal(
+      await turboImageHostResolver.resolveFullImage(pageUrl, context),
+      'https://s8d3.turboimg.net/sp/77ad03e1b96c4f10/Beach_Set_13.jpg',
+    );
+  });
+
+  it('reads the image ID', () => {
+    assert.equal(turboImageHostResolver.imageId!(new URL(PAGE_URL)), '90817263');
+  });
+
+  it('matches its thumbnail images', () => {
+    assert.ok(turboImageHostResolver.matchesThumbnail(new URL('https://s8d3.turboimg.net/t1/90817263_Beach_Set_12.jpg')));
+    assert.ok(!turboImageHostResolver.matchesThumbnail(new URL('https://s8d3.turboimg.net/sp/5e8b1c0d7a4f2e93/Beach_Set_12.jpg')));
+    assert.ok(!turboImageHostResolver.matchesThumbnail(new URL('https://www.turboimagehost.com/p/90817263/Beach_Set_12.jpg.html')));
+  });
+
+  it('builds the thumbnail from ID and name', () => {
+    assert.equal(turboImageHostResolver.buildThumbnailUrl(PAGE_URL), 'https://s8d3.turboimg.net/t1/90817263_Beach_Set_12.jpg');
+  });
+
+  it('keeps the original name from the page link', () => {
+    assert.equal(turboImageHostResolver.filenameHint(PAGE_URL), 'Beach_Set_12.jpg');
+  });
+});
@@ -0,0 +1,43 @@
+import type { HostResolver } from './types';
+import { matchesDomain, resolveImageSrc, defaultFilenameHint, missingImageError } from './helpers';
+
+// Page links look like www.turboimagehost.com/p/<id>/<original-name>.html
+const PAGE_PATTERN = /turboimagehost\.com\/p\/(\d+)\/([^/?#]+?)\.html/;
+
+export const turboImageHostResolver: HostResolver = {
+  site: 'turboimagehost.com',
+
+  matches(url) {
+    return matchesDomain(url, 'turboimagehost.com');
+  },
+
+  async resolveFullImage(pageUrl, context) {
+    const $ = await context.fetchPage(pageUrl);
+    const src = $('#uImage').attr('src') ||
+                $('img.uImage').attr('src') ||
+                $('meta[property="og:image"]').attr('content');
+
+    if (!src) {
+      throw missingImageError($, 'TurboImageHost');
+    }
+    return resolveImageSrc(src, pageUrl);
+  },
+
+  imageId(url) {
+    return url.pathname.match(/^\/p\/(\d+)\//)?.[1] ?? null;
+  },
+
+  matchesThumbnail(url) {
+    return matchesDomain(url, 'turboimg.net') && url.pathname.startsWith('/t1/');
+  },
+
+  buildThumbnailUrl(pageUrl) {
+    const match = pageUrl.match(PAGE_PATTERN);
+    return match ? `https://s8d3.turboimg.net/t1/${match[1]}_${match[2]}` : null;
+  },
+
+  filenameHint(pageUrl, fullImageUrl) {
+    const match = pageUrl.match(PAGE_PATTERN);
+    return match ? decodeURIComponent(match[2]) : defaultFilenameHint(pageUrl, fullImageUrl);
+  },
+};
@@ -0,0 +1,53 @@
+import type * as cheerio from 'cheerio';
+
+export interface FetchPageOptions {
+  method?: 'GET' | 'POST';
+  data?: string;
+  headers?: Record<string, string>;
+}
+
+export interface ResolveContext {
+  // Fetches a hosting page and returns it parsed, so resolvers never talk to axios directly
+  fetchPage(url: string, options?: FetchPageOptions): Promise<cheerio.CheerioAPI>;
+}
+
+// One image listed on a gallery page
+export interface GalleryImage {
+  hostingPage: string;
+  previewUrl?: string;
+}
+
+export interface HostResolver {
+  // Value stored as `hostingSite`, e.g. "imagebam.com"
+  readonly site: string;
+
+  // Whether this resolver handles the given hosting page URL
+  matches(url: URL): boolean;
+
+  // Links only taken from inside a scraped post, never accepted from a client or found elsewhere on a page
+  readonly postOnly?: boolean;
+
+  // Global pattern for bare page links pasted as text in posts, for hosts posters commonly paste unlinked
+  readonly linkPattern?: RegExp;
+
+  // Turns a hosting page link into the direct full resolution image URL
+  resolveFullImage(pageUrl: string, context: ResolveContext): Promise<string>;
+
+  // The host's own ID for the image behind a page link, so differently shaped links to one image compare equal
+  imageId?(url: URL): string | null;
+
+  // The host's ID for a gallery link, or null when the link is a single image
+  galleryId?(url: URL): string | null;
+
+  // Lists every image in a gallery, following the gallery's own pagination
+  expandGallery?(galleryUrl: string, context: ResolveContext): Promise<GalleryImage[]>;
+
+  // Whether a URL is one of this host's thumbnail images, which the thumbnail proxy may fetch
+  matchesThumbnail(url: URL): boolean;
+
+  // Builds a thumbnail URL from the hosting page link alone, or null if the host has no predictable scheme
+  buildThumbnailUrl(pageUrl: string): string | null;
+
+  // Best guess at the original filename, from the page link and (once known) the full image URL
+  filenameHint(pageUrl: string, fullImageUrl?: string): string | null;
+}
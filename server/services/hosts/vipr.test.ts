@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { viprResolver } from './vipr';
+import { fixtureContext } from './fixtures/context';
+
+const PAGE_URL = 'https://vipr.im/8x2kd0q7mbrw/Beach_Set_031.jpg.html';
+
+describe('viprResolver', () => {
+  it('matches page links with and without a name', () => {
+    assert.ok(viprResolver.matches(new URL(PAGE_URL)));
+    assert.ok(viprResolver.matches(new URL('https://vipr.im/8x2kd0q7mbrw.html')));
+    assert.ok(!viprResolver.matches(new URL('https://vipr.im/th/00412/8x2kd0q7mbrw.jpg')));
+  });
+
+  it('resolves the full image', async () => {
+    const context = fixtureContext({ [PAGE_URL]: 'vipr-image.html' });
+    assert.equal(
+      await viprResolver.resolveFullImage(PAGE_URL, context),
+      'https://img3.vipr.im/i/00412/8x2kd0q7mbrw.jpg/Beach_Set_031.jpg',
+    );
+  });
+
+  it('reads the image ID', () => {
+    assert.equal(viprResolver.imageId!(new URL(PAGE_URL)), '8x2kd0q7mbrw');
+  });
+
+  it('matches its thumbnail images', () => {
+    assert.ok(viprResolver.matchesThumbnail(new URL('https://vipr.im/th/00412/8x2kd0q7mbrw.jpg')));
+    assert.ok(viprResolver.matchesThumbnail(new URL('https://vipr.im/th/8x2kd0q7mbrw.jpg')));
+    assert.ok(!viprResolver.matchesThumbnail(new URL('https://vipr.im/8x2kd0q7mbrw.html')));
+    assert.ok(!viprResolver.matchesThumbnail(new URL('https://img3.vipr.im/i/00412/8x2kd0q7mbrw.jpg/Beach_Set_031.jpg')));
+  });
+
+  it('builds the thumbnail from the image ID', () => {
+    assert.equal(viprResolver.buildThumbnailUrl(PAGE_URL), 'https://vipr.im/th/8x2kd0q7mbrw.jpg');
+    assert.equal(viprResolver.buildThumbnailUrl('https://vipr.im/8X2KD0Q7MBRW.html'), 'https://vipr.im/th/8x2kd0q7mbrw.jpg');
+  });
+
+  it('keeps the original name from the page link', () => {
+    assert.equal(viprResolver.filenameHint(PAGE_URL), 'Beach_Set_031.jpg');
+    assert.equal(
+      viprResolver.filenameHint('https://vipr.im/8x2kd0q7mbrw.html', 'https://img3.vipr.im/i/00412/8x2kd0q7mbrw.jpg/Beach_Set_031.jpg'),
+      'Beach_Set_031.jpg',
+    );
+  });
+});
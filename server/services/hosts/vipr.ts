@@ -0,0 +1,47 @@
+import type { HostResolver } from './types';
+import { matchesDomain, resolveImageSrc, defaultFilenameHint, missingImageError } from './helpers';
+
+// Page links look like vipr.im/<id>.html or vipr.im/<id>/<original-name>.html
+const PAGE_PATTERN = /vipr\.im\/([a-z0-9]{12})(?:\/([^/?#]+?))?\.html/i;
+
+export const viprResolver: HostResolver = {
+  site: 'vipr.im',
+
+  matches(url) {
+    return matchesDomain(url, 'vipr.im') && PAGE_PATTERN.test(url.toString());
+  },
+
+  linkPattern: /https?:\/\/(?:www\.)?vipr\.im\/[a-z0-9]{12}(?:\/[^\s"'<>\[\]]+?)?\.html/gi,
+
+  async resolveFullImage(pageUrl, context) {
+    const $ = await context.fetchPage(pageUrl);
+    const src = $('img.pic').attr('src') ||
+                $('.img-responsive').attr('src') ||
+                $('meta[property="og:image"]').attr('content');
+
+    if (!src) {
+      throw missingImageError($, 'Vipr');
+    }
+    return resolveImageSrc(src, pageUrl);
+  },
+
+  imageId(url) {
+    return url.pathname.match(/^\/([a-z0-9]{12})/i)?.[1]?.toLowerCase() ?? null;
+  },
+
+  matchesThumbnail(url) {
+    return matchesDomain(url, 'vipr.im') && url.pathname.startsWith('/th/');
+  },
+
+  buildThumbnailUrl(pageUrl) {
+    // Thumbnails are served by image ID under /th/
+    const match = pageUrl.match(PAGE_PATTERN);
+    return match ? `https://vipr.im/th/${match[1].toLowerCase()}.jpg` : null;
+  },
+
+  filenameHint(pageUrl, fullImageUrl) {
+    const match = pageUrl.match(PAGE_PATTERN);
+    if (match?.[2]) return decodeURIComponent(match[2]);
+    return defaultFilenameHint(pageUrl, fullImageUrl);
+  },
+};
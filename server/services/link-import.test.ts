@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { sortImportedLinks } from './link-import';
+
+describe('sortImportedLinks', () => {
+  it('takes pasted hosting page links and direct image links', () => {
+    const { images, rejected } = sortImportedLinks([
+      'https://www.imagebam.com/view/MEXK2QF',
+      '  https://cdn.example.com/sets/beach/01.jpg  ',
+    ]);
+    assert.deepEqual(rejected, []);
+    assert.deepEqual(images.map(image => [image.hostingSite, image.hostingPage]), [
+      ['imagebam.com', 'https://www.imagebam.com/view/MEXK2QF'],
+      ['direct', 'https://cdn.example.com/sets/beach/01.jpg'],
+    ]);
+  });
+
+  it('lists each unusable line with its reason', () => {
+    const { images, rejected } = sortImportedLinks([
+      'not a link',
+      'https://example.com/about',
+      'http://169.254.169.254/latest/meta-data.png',
+      'https://imx.to/i/5kq3nv',
+      'http://www.imx.to/img-5kq3nv.html',
+      '',
+    ]);
+    assert.equal(images.length, 1);
+    assert.deepEqual(rejected, [
+      { link: 'not a link', reason: 'Not a valid URL' },
+      { link: 'https://example.com/about', reason: 'Not a supported image host or image link' },
+      { link: 'http://169.254.169.254/latest/meta-data.png', reason: 'Not a supported image host or image link' },
+      { link: 'http://www.imx.to/img-5kq3nv.html', reason: 'Duplicate link' },
+    ]);
+  });
+});
@@ -0,0 +1,40 @@
+import type { LinkImportResult } from '@shared/schema';
+import { hostRegistry } from './hosts';
+import type { ScrapedImage } from './scraper';
+
+// Turns pasted lines into images to download: hosting page links and direct image links are taken, anything else is
+// listed with the reason it could not be used
+export function sortImportedLinks(links: unknown[]): { images: ScrapedImage[]; rejected: LinkImportResult['rejected'] } {
+  const rejected: LinkImportResult['rejected'] = [];
+  const images: ScrapedImage[] = [];
+  const seen = new Set<string>();
+  for (const link of links.map(link => String(link).trim()).filter(Boolean)) {
+    let url: URL;
+    try {
+      url = new URL(link);
+    } catch {
+      rejected.push({ link, reason: "Not a valid URL" });
+      continue;
+    }
+    // Direct links are fetched like those found in posts, so only public web servers pass
+    if (!/^https?:$/.test(url.protocol) || !hostRegistry.isPostImageUrl(url.toString())) {
+      rejected.push({ link, reason: "Not a supported image host or image link" });
+      continue;
+    }
+
+    const key = hostRegistry.canonicalImageId(url.toString());
+    if (seen.has(key)) {
+      rejected.push({ link, reason: "Duplicate link" });
+      continue;
+    }
+    seen.add(key);
+
+    images.push({
+      previewUrl: hostRegistry.buildPreviewUrl(url.toString()),
+      hostingPage: url.toString(),
+      hostingSite: hostRegistry.getHostingSite(url.toString()),
+      pageNumber: 1,
+    });
+  }
+  return { images, rejected };
+}
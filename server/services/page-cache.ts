@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+interface CachedPage {
+  html: string;
+  fetchedAt: number;
+}
+
+export interface PageCacheOptions {
+  // Skip cached copies and store the freshly fetched page instead
+  refresh?: boolean;
+}
+
+const DEFAULT_TTL_SECONDS = 600;
+
+export class ThreadPageCache {
+  private memory: Map<string, CachedPage>;
+  private cacheDir: string;
+  private ttlMs: number;
+  private lastSweepAt: number;
+
+  constructor(ttlSeconds: number = DEFAULT_TTL_SECONDS) {
+    this.memory = new Map();
+    this.cacheDir = path.join(process.cwd(), 'cache', 'pages');
+    this.ttlMs = ttlSeconds * 1000;
+    this.lastSweepAt = 0;
+
+    // Ensure cache directory exists
+    if (!fs.existsSync(this.cacheDir)) {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+    }
+    this.sweep();
+  }
+
+  // Returns the page HTML, only calling fetchHtml when there is no fresh cached copy
+  async getPage(
+    forum: string,
+    threadId: string,
+    page: number,
+    fetchHtml: () => Promise<string>,
+    options: PageCacheOptions = {},
+  ): Promise<string> {
+    const key = this.cacheKey(forum, threadId, page);
+
+    if (!options.refresh) {
+      const cached = this.memory.get(key) || this.readFromDisk(key);
+      if (cached && this.isFresh(cached)) {
+        this.memory.set(key, cached);
+        return cached.html;
+      }
+      if (cached) this.remove(key);
+    }
+
+    const html = await fetchHtml();
+    const entry = { html, fetchedAt: Date.now() };
+    this.memory.set(key, entry);
+    this.writeToDisk(key, entry);
+
+    // Pages that are never asked for again would otherwise stay forever
+    if (Date.now() - this.lastSweepAt >= this.ttlMs) this.sweep();
+    return html;
+  }
+
+  private isFresh(entry: CachedPage): boolean {
+    return Date.now() - entry.fetchedAt < this.ttlMs;
+  }
+
+  private remove(key: string): void {
+    this.memory.delete(key);
+    fs.promises.unlink(this.diskPath(key)).catch(() => {});
+  }
+
+  // Drops every expired page; a file's modification time is when its page was fetched
+  private sweep(): void {
+    this.lastSweepAt = Date.now();
+    for (const [key, entry] of Array.from(this.memory)) {
+      if (!this.isFresh(entry)) this.memory.delete(key);
+    }
+
+    try {
+      for (const fileName of fs.readdirSync(this.cacheDir)) {
+        const filePath = path.join(this.cacheDir, fileName);
+        const stats = fs.statSync(filePath, { throwIfNoEntry: false });
+        if (stats && Date.now() - stats.mtimeMs >= this.ttlMs) {
+          fs.rmSync(filePath, { force: true });
+        }
+      }
+    } catch (error) {
+      console.error('Failed to sweep the page cache:', error);
+    }
+  }
+
+  private cacheKey(forum: string, threadId: string, page: number): string {
+    return `${forum}_${threadId}_page_${page}`.replace(/[^a-zA-Z0-9_-]/g, '_');
+  }
+
+  private diskPath(key: string): string {
+    return path.join(this.cacheDir, `${key}.json`);
+  }
+
+  private readFromDisk(key: string): CachedPage | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(this.diskPath(key), 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private writeToDisk(key: string, entry: CachedPage): void {
+    try {
+      fs.writeFileSync(this.diskPath(key), JSON.stringify(entry));
+    } catch (error) {
+      // The memory copy still serves this process
+      console.error(`Failed to write page cache entry ${key}:`, error);
+    }
+  }
+}
+
+const configuredTtl = parseInt(process.env.PAGE_CACHE_TTL_SECONDS || '', 10);
+export const pageCache = new ThreadPageCache(isNaN(configuredTtl) ? DEFAULT_TTL_SECONDS : configuredTtl);
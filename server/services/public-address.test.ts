@@ -0,0 +1,78 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import axios from 'axios';
+import { isPublicWebUrl, publicLookup, PUBLIC_WEB_REQUEST } from './public-address';
+
+describe('isPublicWebUrl', () => {
+  it('accepts public servers on their default port', () => {
+    assert.ok(isPublicWebUrl(new URL('https://cdn.example.com/01.jpg')));
+    assert.ok(isPublicWebUrl(new URL('http://93.184.216.34/01.jpg')));
+  });
+
+  it('refuses the server\'s own network, other ports and other schemes', () => {
+    for (const url of [
+      'http://127.0.0.1/x.jpg',
+      'http://169.254.169.254/latest/meta-data',
+      'http://10.1.2.3/x.jpg',
+      'http://[::1]/x.jpg',
+      'http://[fd00::1]/x.jpg',
+      'http://[::ffff:127.0.0.1]/x.jpg',
+      'http://2130706433/x.jpg',
+      'http://localhost/x.jpg',
+      'http://nas.local/x.jpg',
+      'https://cdn.example.com:8443/x.jpg',
+      'ftp://cdn.example.com/x.jpg',
+    ]) {
+      assert.ok(!isPublicWebUrl(new URL(url)), url);
+    }
+  });
+});
+
+describe('publicLookup', () => {
+  it('refuses names that resolve to a private address', async () => {
+    const error = await new Promise<Error | null>(resolve => publicLookup('localhost', {}, error => resolve(error)));
+    assert.match(String(error?.message), /resolves to a private address/);
+  });
+});
+
+describe('PUBLIC_WEB_REQUEST', () => {
+  const server = http.createServer((req, res) => {
+    if (req.url === '/to-metadata') {
+      res.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' }).end();
+    } else if (req.url === '/to-localhost') {
+      res.writeHead(302, { Location: 'http://localhost/admin' }).end();
+    } else {
+      res.end('ok');
+    }
+  });
+  const port = () => (server.address() as AddressInfo).port;
+
+  before(() => new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve)));
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  // Stands in for a public name pointing at the test server, so only the redirect is judged
+  const pretendPublic = (hostname: string, options: any, callback: any) =>
+    options.all ? callback(null, [{ address: '127.0.0.1', family: 4 }]) : callback(null, '127.0.0.1', 4);
+
+  it('refuses to follow a redirect to a private address', async () => {
+    for (const path of ['/to-metadata', '/to-localhost']) {
+      await assert.rejects(
+        axios.get(`http://public.test:${port()}${path}`, { ...PUBLIC_WEB_REQUEST, lookup: pretendPublic, timeout: 5000 }),
+        /is not a public web address/,
+        path,
+      );
+    }
+  });
+
+  it('refuses to connect to a name that resolves to a private address', async () => {
+    await assert.rejects(
+      axios.get(`http://localhost:${port()}/`, { ...PUBLIC_WEB_REQUEST, timeout: 5000 }),
+      /resolves to a private address/,
+    );
+  });
+});
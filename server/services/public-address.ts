@@ -0,0 +1,96 @@
+import * as dns from 'dns';
+import * as net from 'net';
+import type { AxiosRequestConfig } from 'axios';
+
+// Names that only mean something inside the server's own network
+const LOCAL_HOSTNAME = /(?:^|\.)(?:localhost|local|internal|intranet|lan|home\.arpa)$/i;
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224 || // "this" network, private, loopback, multicast and reserved
+    (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+    (a === 169 && b === 254) || // Link-local, including cloud metadata services
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0) ||
+    (a === 198 && (b === 18 || b === 19)); // Benchmarking
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const normalized = address.toLowerCase();
+  // IPv4-mapped addresses, which URL parsing writes in hex (::ffff:7f00:1 for 127.0.0.1)
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIPv4(mapped[1]);
+  const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return normalized === '::' || normalized === '::1' ||
+    /^f[cd]/.test(normalized) || // Unique local
+    /^fe[89ab]/.test(normalized) || // Link-local
+    normalized.startsWith('ff'); // Multicast
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const version = net.isIP(address);
+  if (version === 4) return isPrivateIPv4(address);
+  if (version === 6) return isPrivateIPv6(address);
+  return false;
+}
+
+// Whether a URL points at a public web server on its default port, judged from the URL alone
+export function isPublicWebUrl(url: URL): boolean {
+  if (!/^https?:$/.test(url.protocol) || url.port !== '') return false;
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(hostname)) return !isPrivateAddress(hostname);
+  return hostname.includes('.') && !LOCAL_HOSTNAME.test(hostname);
+}
+
+// Checks what the hostname resolves to as well, so a public-looking name cannot lead into the server's network
+export async function assertPublicWebUrl(url: string): Promise<void> {
+  const parsed = new URL(url);
+  if (!isPublicWebUrl(parsed)) {
+    throw new Error(`${parsed.host} is not a public web address`);
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(hostname)) return;
+  const addresses = await dns.promises.lookup(hostname, { all: true });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`${parsed.hostname} resolves to a private address`);
+  }
+}
+
+// dns.lookup that refuses names resolving to a private address; the connection is then made to the address checked here,
+// so a name that changes its answer between a check and the request cannot lead into the server's network
+export function publicLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: Error | null, address: string | dns.LookupAddress[], family?: number) => void,
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new Error(`${hostname} resolves to a private address`), []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+// Checked before every redirect is followed; IP literals never reach the lookup, so the target URL is judged as well
+export function assertPublicRedirect(options: Record<string, any>): void {
+  const target = new URL(options.href);
+  if (!isPublicWebUrl(target)) {
+    throw new Error(`Redirect to ${target.host} is not a public web address`);
+  }
+}
+
+// Request options for fetching from image hosts and the servers their pages point at
+export const PUBLIC_WEB_REQUEST: Pick<AxiosRequestConfig, 'lookup' | 'beforeRedirect' | 'maxRedirects'> = {
+  lookup: publicLookup as AxiosRequestConfig['lookup'],
+  beforeRedirect: assertPublicRedirect,
+  maxRedirects: 5,
+};
@@ -0,0 +1,128 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { CanceledError } from 'axios';
+import type { AddressInfo } from 'net';
+import { RequestScheduler, hostBudgetKey } from './request-scheduler';
+
+// A local server whose answer to each path is set by the test; it records when requests arrive and how many overlap
+function testServer(handle: (path: string, res: http.ServerResponse) => void) {
+  const arrivals: number[] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const server = http.createServer((req, res) => {
+    arrivals.push(Date.now());
+    maxInFlight = Math.max(maxInFlight, ++inFlight);
+    res.on('finish', () => inFlight--);
+    handle(req.url || '/', res);
+  });
+  return {
+    server,
+    arrivals,
+    maxInFlight: () => maxInFlight,
+    url: (path: string) => `http://127.0.0.1:${(server.address() as AddressInfo).port}${path}`,
+  };
+}
+
+describe('hostBudgetKey', () => {
+  it('shares one budget between a site\'s subdomains', () => {
+    assert.equal(hostBudgetKey('images2.imagebam.com'), 'imagebam.com');
+    assert.equal(hostBudgetKey('www.imagebam.com'), 'imagebam.com');
+  });
+
+  it('keeps unrelated sites under a multi-part suffix apart', () => {
+    assert.equal(hostBudgetKey('foo.co.uk'), 'foo.co.uk');
+    assert.equal(hostBudgetKey('cdn.bar.co.uk'), 'bar.co.uk');
+  });
+
+  it('keeps IP addresses and single-label names whole', () => {
+    assert.equal(hostBudgetKey('10.0.3.4'), '10.0.3.4');
+    assert.notEqual(hostBudgetKey('10.0.3.4'), hostBudgetKey('192.168.3.4'));
+    assert.equal(hostBudgetKey('[::1]'), '::1');
+    assert.equal(hostBudgetKey('localhost'), 'localhost');
+  });
+});
+
+describe('RequestScheduler', () => {
+  const throttledOnce = new Set<string>();
+  const site = testServer((path, res) => {
+    if (path.startsWith('/slow')) {
+      setTimeout(() => res.end('ok'), 100);
+    } else if (path.startsWith('/held')) {
+      setTimeout(() => res.end('ok'), 500);
+    } else if (path.startsWith('/throttled')) {
+      res.writeHead(429, { 'Retry-After': '600' }).end();
+    } else if (path.startsWith('/retry-after') && !throttledOnce.has(path)) {
+      throttledOnce.add(path);
+      res.writeHead(429, { 'Retry-After': '1' }).end();
+    } else {
+      res.end('ok');
+    }
+  });
+
+  before(() => new Promise<void>(resolve => site.server.listen(0, '127.0.0.1', resolve)));
+  after(() => {
+    site.server.closeAllConnections();
+    site.server.close();
+  });
+
+  it('holds a host to its concurrency limit', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 2, minIntervalMs: 0 });
+    await Promise.all([1, 2, 3, 4, 5].map(n => scheduler.request({ url: site.url(`/slow/${n}`) })));
+    assert.equal(site.maxInFlight(), 2);
+  });
+
+  it('spaces request starts by the minimum interval', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 4, minIntervalMs: 150 });
+    const firstArrival = site.arrivals.length;
+    await Promise.all([1, 2, 3].map(n => scheduler.request({ url: site.url(`/fast/${n}`) })));
+
+    const arrivals = site.arrivals.slice(firstArrival);
+    for (let i = 1; i < arrivals.length; i++) {
+      // Timers may fire a few milliseconds early
+      assert.ok(arrivals[i] - arrivals[i - 1] >= 140, `gap ${arrivals[i] - arrivals[i - 1]}ms`);
+    }
+  });
+
+  it('waits out Retry-After before asking a throttling host again', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1, minIntervalMs: 0 });
+    const startedAt = Date.now();
+    const response = await scheduler.request({ url: site.url('/retry-after/1') });
+    assert.equal(response.status, 200);
+    assert.ok(Date.now() - startedAt >= 990);
+  });
+
+  it('fails instead of waiting longer than the throttle cap', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1, minIntervalMs: 0 });
+    const startedAt = Date.now();
+    await assert.rejects(scheduler.request({ url: site.url('/throttled/1') }), (error: any) => error.response?.status === 429);
+    // The host is still blocked, so the next request gives up without asking it
+    await assert.rejects(scheduler.request({ url: site.url('/fast/after-throttle') }), /throttling requests, gave up waiting/);
+    assert.ok(Date.now() - startedAt < 1000);
+  });
+
+  it('stops waiting for a slot when the request is aborted', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1, minIntervalMs: 0 });
+    const holder = scheduler.request({ url: site.url('/held/1') });
+    const controller = new AbortController();
+    const waiting = scheduler.request({ url: site.url('/fast/waiting'), signal: controller.signal });
+    setTimeout(() => controller.abort('paused'), 20);
+
+    const startedAt = Date.now();
+    await assert.rejects(waiting, CanceledError);
+    assert.ok(Date.now() - startedAt < 400);
+    await holder;
+    // The slot the aborted request was waiting for is free for the next one
+    assert.equal((await scheduler.request({ url: site.url('/fast/next') })).status, 200);
+  });
+
+  it('stops waiting out a backoff when the request is aborted', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1, minIntervalMs: 0 });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort('paused'), 100);
+
+    const startedAt = Date.now();
+    await assert.rejects(scheduler.request({ url: site.url('/retry-after/aborted'), signal: controller.signal }), CanceledError);
+    assert.ok(Date.now() - startedAt < 900);
+  });
+});
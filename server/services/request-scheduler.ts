@@ -0,0 +1,202 @@
+import * as net from 'net';
+import axios, { CanceledError, type AxiosRequestConfig, type AxiosResponse } from 'axios';
+import { getDomain } from 'tldts';
+
+export interface HostPolicy {
+  maxConcurrent: number;
+  minIntervalMs: number; // Minimum gap between two request starts
+}
+
+interface HostState {
+  host: string;
+  policy: HostPolicy;
+  active: number;
+  lastStartedAt: number;
+  blockedUntil: number; // Set by Retry-After or backoff after a throttling response
+  waiters: Array<() => void>;
+}
+
+const THROTTLING_STATUSES = [429, 503];
+const MAX_THROTTLE_RETRIES = 5;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+// Longest one request waits out a throttled host, across all its retries; past that it fails and the caller decides
+const MAX_THROTTLE_WAIT_MS = 2 * 60 * 1000;
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+// Resolves after the delay, or rejects as soon as the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new CanceledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Image hosts spread files over numbered subdomains (images2.imagebam.com); they share their site's budget.
+// The site is the registrable domain, so unrelated sites under a suffix like co.uk stay apart, and IP addresses stay whole
+export function hostBudgetKey(hostname: string): string {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (net.isIP(host)) return host;
+  return getDomain(host, { allowPrivateDomains: true }) ?? host;
+}
+
+// Every outgoing request to the forum and image hosts goes through here, so each host sees a polite request rate
+export class RequestScheduler {
+  private hosts: Map<string, HostState>;
+  private policies: Map<string, HostPolicy>;
+  private defaultPolicy: HostPolicy;
+
+  constructor(defaultPolicy: HostPolicy) {
+    this.hosts = new Map();
+    this.policies = new Map();
+    this.defaultPolicy = defaultPolicy;
+  }
+
+  setPolicy(hostname: string, policy: HostPolicy): void {
+    const key = hostBudgetKey(hostname);
+    this.policies.set(key, policy);
+    const state = this.hosts.get(key);
+    if (state) state.policy = policy;
+  }
+
+  async request<T = any>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const state = this.getState(new URL(config.url!).hostname);
+    // Waiting for a slot stops with the request it is for
+    const signal = config.signal as AbortSignal | undefined;
+    const giveUpAt = Date.now() + MAX_THROTTLE_WAIT_MS;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(state, signal, giveUpAt);
+      let holdsSlot = true;
+      try {
+        const response = await axios.request<T>(config);
+
+        // Streamed bodies keep the slot until the transfer ends
+        if (config.responseType === 'stream') {
+          const stream = response.data as NodeJS.ReadableStream;
+          let released = false;
+          const releaseOnce = () => {
+            if (released) return;
+            released = true;
+            this.release(state);
+          };
+          stream.once('end', releaseOnce);
+          stream.once('error', releaseOnce);
+          stream.once('close', releaseOnce);
+          holdsSlot = false;
+        }
+        return response;
+      } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        if (!status || !THROTTLING_STATUSES.includes(status) || attempt >= MAX_THROTTLE_RETRIES) {
+          throw error;
+        }
+
+        const retryAfter = axios.isAxiosError(error) ? this.parseRetryAfter(error.response?.headers['retry-after']) : undefined;
+        const delay = Math.min(retryAfter ?? BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+        state.blockedUntil = Math.max(state.blockedUntil, Date.now() + delay);
+        if (Date.now() + delay > giveUpAt) {
+          throw error;
+        }
+        console.log(`${config.url} answered ${status}, waiting ${Math.round(delay / 1000)}s before retrying`);
+      } finally {
+        if (holdsSlot) this.release(state);
+      }
+    }
+  }
+
+  private async acquire(state: HostState, signal: AbortSignal | undefined, giveUpAt: number): Promise<void> {
+    try {
+      while (true) {
+        if (signal?.aborted) throw new CanceledError();
+        if (state.active >= state.policy.maxConcurrent) {
+          await this.waitForRelease(state, signal);
+          continue;
+        }
+
+        if (state.blockedUntil > giveUpAt) {
+          throw new Error(`${state.host} is throttling requests, gave up waiting`);
+        }
+
+        const readyAt = Math.max(state.lastStartedAt + state.policy.minIntervalMs, state.blockedUntil);
+        const wait = readyAt - Date.now();
+        if (wait > 0) {
+          await sleep(wait, signal);
+          continue;
+        }
+
+        state.active++;
+        state.lastStartedAt = Date.now();
+        return;
+      }
+    } catch (error) {
+      // A free slot this request was woken for goes to the next one in line
+      if (state.active < state.policy.maxConcurrent) state.waiters.shift()?.();
+      throw error;
+    }
+  }
+
+  private waitForRelease(state: HostState, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const wake = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        state.waiters = state.waiters.filter(waiter => waiter !== wake);
+        reject(new CanceledError());
+      };
+      state.waiters.push(wake);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private release(state: HostState): void {
+    state.active--;
+    state.waiters.shift()?.();
+  }
+
+  private getState(hostname: string): HostState {
+    const key = hostBudgetKey(hostname);
+    let state = this.hosts.get(key);
+    if (!state) {
+      state = {
+        host: key,
+        policy: this.policies.get(key) || this.defaultPolicy,
+        active: 0,
+        lastStartedAt: 0,
+        blockedUntil: 0,
+        waiters: [],
+      };
+      this.hosts.set(key, state);
+    }
+    return state;
+  }
+
+  // Retry-After is either a number of seconds or an HTTP date
+  private parseRetryAfter(value: unknown): number | undefined {
+    if (typeof value !== 'string' || value.trim() === '') return undefined;
+    if (/^\d+$/.test(value.trim())) return parseInt(value, 10) * 1000;
+
+    const date = new Date(value).getTime();
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+}
+
+// HOST_CONCURRENCY and HOST_MIN_INTERVAL_MS set the budget each host gets unless a stricter policy is registered
+export const requestScheduler = new RequestScheduler({
+  maxConcurrent: readPositiveInt(process.env.HOST_CONCURRENCY, 4) || 1,
+  minIntervalMs: readPositiveInt(process.env.HOST_MIN_INTERVAL_MS, 250),
+});
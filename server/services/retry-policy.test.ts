@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AxiosError, CanceledError, type AxiosResponse } from 'axios';
+import { ImageRemovedError } from './hosts';
+import { IMAGE_RETRY_POLICY, isRetryableError, retryDelay, waitForRetry } from './retry-policy';
+
+function httpError(status: number): AxiosError {
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, { status } as AxiosResponse);
+}
+
+describe('isRetryableError', () => {
+  it('gives up on answers that will not change', () => {
+    for (const status of [400, 401, 403, 404, 410, 451]) {
+      assert.ok(!isRetryableError(httpError(status)), `${status}`);
+    }
+  });
+
+  it('retries server errors and throttling', () => {
+    for (const status of [429, 500, 502, 503, 504]) {
+      assert.ok(isRetryableError(httpError(status)), `${status}`);
+    }
+  });
+
+  it('retries network errors and pages it could not read', () => {
+    assert.ok(isRetryableError(new AxiosError('socket hang up', 'ECONNRESET')));
+    assert.ok(isRetryableError(new Error('Could not find image on Pixhost page')));
+  });
+
+  it('does not retry removed images or stopped requests', () => {
+    assert.ok(!isRetryableError(new ImageRemovedError('Image was removed from Pixhost')));
+    assert.ok(!isRetryableError(new CanceledError()));
+  });
+});
+
+describe('retryDelay', () => {
+  it('grows with each attempt within the policy\'s bounds', () => {
+    for (let attempt = 1; attempt <= 10; attempt++) {
+      const ceiling = Math.min(IMAGE_RETRY_POLICY.baseDelayMs * 2 ** (attempt - 1), IMAGE_RETRY_POLICY.maxDelayMs);
+      const delay = retryDelay(IMAGE_RETRY_POLICY, attempt);
+      assert.ok(delay >= ceiling / 2 && delay <= ceiling, `attempt ${attempt}: ${delay}ms`);
+    }
+  });
+});
+
+describe('waitForRetry', () => {
+  it('ends as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    setTimeout(() => controller.abort('paused'), 20);
+    await waitForRetry(60 * 1000, controller.signal);
+    assert.ok(Date.now() - startedAt < 1000);
+  });
+});
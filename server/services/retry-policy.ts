@@ -0,0 +1,46 @@
+import axios from 'axios';
+import { ImageRemovedError } from './hosts';
+
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first try
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const IMAGE_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 60 * 1000,
+};
+
+// Answers that will not change however often the image is asked for
+const PERMANENT_STATUSES = [400, 401, 403, 404, 410, 451];
+
+export function isRetryableError(error: unknown): boolean {
+  if (axios.isCancel(error) || error instanceof ImageRemovedError) return false;
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    if (status !== undefined && PERMANENT_STATUSES.includes(status)) return false;
+  }
+  return true;
+}
+
+// Exponential backoff with jitter, so images that failed together do not all come back at once
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+  const ceiling = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+// Resolves after the delay, or straight away once the signal aborts
+export function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, delayMs);
+    signal?.addEventListener('abort', done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
@@ -0,0 +1,134 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ViperGirlsAdapter as ViperGirls } from './forums/vipergirls';
+import type { XenForoAdapter as XenForo } from './forums/xenforo';
+import type { VBulletinAdapter as VBulletin } from './forums/vbulletin';
+
+type Adapter = ViperGirls | XenForo | VBulletin;
+
+let ViperGirlsAdapter: typeof ViperGirls;
+let XenForoAdapter: typeof XenForo;
+let VBulletinAdapter: typeof VBulletin;
+
+// The forum settings are read once on import, so the mirror domain is set before the adapters load
+before(async () => {
+  process.env.FORUM_ALIASES = 'viper.click';
+  ({ ViperGirlsAdapter } = await import('./forums/vipergirls'));
+  ({ XenForoAdapter } = await import('./forums/xenforo'));
+  ({ VBulletinAdapter } = await import('./forums/vbulletin'));
+});
+
+// Post links without a page are looked up on the forum; the lookup answers as the forum's redirect would
+function withPostLookup<T extends Adapter>(adapter: T, located: { threadId?: string; currentPage?: number }) {
+  const lookups: string[] = [];
+  Object.assign(adapter, {
+    async locatePost(url: string) {
+      lookups.push(url);
+      return located;
+    },
+  });
+  return { adapter, lookups };
+}
+
+function location(threadId: string, currentPage?: number, postId?: string) {
+  return { threadId, currentPage, postId };
+}
+
+describe('parseThreadUrl', () => {
+  const cases: Array<{ name: string; adapter: () => Adapter; url: string; expected: ReturnType<typeof location>; lookup?: string }> = [
+    {
+      name: 'ViperGirls thread',
+      adapter: () => new ViperGirlsAdapter(),
+      url: 'https://vipergirls.to/threads/1234567-Beach-Set',
+      expected: location('1234567'),
+    },
+    {
+      name: 'ViperGirls thread page',
+      adapter: () => new ViperGirlsAdapter(),
+      url: 'https://www.vipergirls.to/threads/1234567-Beach-Set/page3',
+      expected: location('1234567', 3),
+    },
+    {
+      name: 'mirror domain',
+      adapter: () => new ViperGirlsAdapter(),
+      url: 'https://viper.click/threads/1234567-Beach-Set?page=2',
+      expected: location('1234567', 2),
+    },
+    {
+      name: 'showthread.php?t=',
+      adapter: () => new ViperGirlsAdapter(),
+      url: 'https://vipergirls.to/showthread.php?t=1234567&page=4',
+      expected: location('1234567', 4),
+    },
+    {
+      name: 'showthread.php with the ID in the path',
+      adapter: () => new VBulletinAdapter('https://board.example.com'),
+      url: 'https://board.example.com/showthread.php/1234567-Beach-Set',
+      expected: location('1234567'),
+    },
+    {
+      name: 'post anchor on a known page',
+      adapter: () => new ViperGirlsAdapter(),
+      url: 'https://vipergirls.to/threads/1234567-Beach-Set/page-5?p=89012345#post89012345',
+      expected: location('1234567', 5, '89012345'),
+    },
+    {
+      name: 'post anchor without a page',
+      adapter: () => new ViperGirlsAdapter(),
+      url: 'https://vipergirls.to/threads/1234567-Beach-Set?p=89012345#post89012345',
+      expected: location('1234567', 6, '89012345'),
+      lookup: 'https://vipergirls.to/threads/1234567-Beach-Set?p=89012345#post89012345',
+    },
+    {
+      name: 'post link on a mirror domain',
+      adapter: () => new ViperGirlsAdapter(),
+      url: 'https://viper.click/posts/89012345',
+      expected: location('1234567', 6, '89012345'),
+      lookup: 'https://vipergirls.to/posts/89012345',
+    },
+    {
+      name: 'showpost-style ?p= link',
+      adapter: () => new VBulletinAdapter('https://board.example.com'),
+      url: 'https://board.example.com/showthread.php?p=89012345',
+      expected: location('1234567', 6, '89012345'),
+      lookup: 'https://board.example.com/showthread.php?p=89012345',
+    },
+    {
+      name: 'XenForo /threads/slug.123/page-N',
+      adapter: () => new XenForoAdapter('https://forum.example.com'),
+      url: 'https://forum.example.com/threads/beach-set.4567/page-12',
+      expected: location('4567', 12),
+    },
+    {
+      name: 'XenForo post anchor',
+      adapter: () => new XenForoAdapter('https://forum.example.com'),
+      url: 'https://forum.example.com/threads/beach-set.4567/page-12#post-99887',
+      expected: location('4567', 12, '99887'),
+    },
+    {
+      name: 'XenForo post link',
+      adapter: () => new XenForoAdapter('https://forum.example.com'),
+      url: 'https://forum.example.com/posts/99887/',
+      expected: location('1234567', 6, '99887'),
+      lookup: 'https://forum.example.com/posts/99887/',
+    },
+  ];
+
+  for (const { name, adapter, url, expected, lookup } of cases) {
+    it(`reads ${name}`, async () => {
+      const forum = withPostLookup(adapter(), { threadId: '1234567', currentPage: 6 });
+      assert.deepEqual(await forum.adapter.parseThreadUrl(url), expected);
+      assert.deepEqual(forum.lookups, lookup ? [lookup] : []);
+    });
+  }
+
+  it('refuses links that name no thread', async () => {
+    const forum = withPostLookup(new ViperGirlsAdapter(), {});
+    await assert.rejects(forum.adapter.parseThreadUrl('https://vipergirls.to/forums/pictures.12/'), /could not extract thread ID/);
+    await assert.rejects(forum.adapter.parseThreadUrl('https://vipergirls.to/posts/89012345'), /could not extract thread ID/);
+  });
+
+  it('refuses links on a domain that is not configured', async () => {
+    await assert.rejects(new ViperGirlsAdapter().parseThreadUrl('https://other.example/threads/1234567-Beach-Set'), /not a configured forum domain/);
+  });
+});
@@ -1,75 +1,253 @@
 import * as cheerio from 'cheerio';
-import axios from 'axios';
+import type { AnyNode } from 'domhandler';
+import { type AxiosResponse } from 'axios';
+import { hostRegistry } from './hosts';
+import { pageCache, type PageCacheOptions } from './page-cache';
+import { forumSessions } from './forum-sessions';
+import { requestScheduler } from './request-scheduler';
+import { storage } from '../storage';
+import type { CookieJar } from './cookie-jar';
+import type { ForumAdapter } from './forums/types';
 
 export interface ScrapedImage {
   previewUrl: string;
   hostingPage: string;
   hostingSite: string;
   pageNumber: number;
+  postId?: string;
+  galleryId?: string; // Set on images expanded from a gallery link, shared by the gallery's images
 }
 
-export class ViperGirlsScraper {
-  private readonly userAgent = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+export interface ScrapedPost {
+  postId: string;
+  author?: string;
+  postDate?: string;
+  postText: string;
+  pageNumber: number;
+  images: ScrapedImage[];
+}
 
-  async parseThreadUrl(url: string): Promise<{ threadId: string; currentPage?: number }> {
-    const urlObj = new URL(url);
-    
-    // Handle different ViperGirls URL formats
+// Quoted replies and signatures repeat other posts' links and banners
+const QUOTE_AND_SIGNATURE_SELECTOR = '.bbCodeQuote, .bbCodeBlock--quote, .bbcode_quote, .quote, .signature, .message-signature';
+
+// Drops images already seen earlier in the same scan, comparing the host's image ID rather than the raw link
+export class ImageDeduplicator {
+  private seen = new Set<string>();
+  droppedCount = 0;
+
+  filter(images: ScrapedImage[]): ScrapedImage[] {
+    return images.filter(image => {
+      const key = hostRegistry.canonicalImageId(image.hostingPage);
+      if (this.seen.has(key)) {
+        this.droppedCount++;
+        return false;
+      }
+      this.seen.add(key);
+      return true;
+    });
+  }
+}
+
+// Replaces gallery links with the gallery's images; a gallery that cannot be read is left out rather than downloaded as a page
+export async function expandGalleries(images: ScrapedImage[]): Promise<ScrapedImage[]> {
+  const expanded: ScrapedImage[] = [];
+  for (const image of images) {
+    const galleryId = hostRegistry.galleryId(image.hostingPage);
+    if (!galleryId) {
+      expanded.push(image);
+      continue;
+    }
+
+    try {
+      const galleryImages = await hostRegistry.expandGallery(image.hostingPage);
+      console.log(`Expanded gallery ${image.hostingPage} into ${galleryImages.length} images`);
+      for (const galleryImage of galleryImages) {
+        expanded.push({
+          previewUrl: galleryImage.previewUrl || hostRegistry.buildPreviewUrl(galleryImage.hostingPage),
+          hostingPage: galleryImage.hostingPage,
+          hostingSite: image.hostingSite,
+          pageNumber: image.pageNumber,
+          postId: image.postId,
+          galleryId,
+        });
+      }
+    } catch (error) {
+      console.error(`Error expanding gallery ${image.hostingPage}:`, error);
+    }
+  }
+  return expanded;
+}
+
+export interface ThreadLocation {
+  threadId: string;
+  currentPage?: number;
+  postId?: string; // Set when the link points at a single post
+}
+
+export interface ThreadInfo {
+  threadTitle?: string;
+  totalPages: number;
+}
+
+// Scraping shared by every board; adapters supply the board's page URLs and post markup
+export abstract class ForumScraper implements ForumAdapter {
+  protected readonly userAgent = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+  abstract readonly name: string;
+
+  // Origin thread pages are fetched from, e.g. "https://vipergirls.to"
+  abstract readonly origin: string;
+
+  // Whole posts carry the ID, author and date; bare post bodies are the fallback
+  protected abstract readonly postContainerSelectors: string[];
+  protected abstract readonly postBodySelectors: string[];
+
+  abstract matches(url: URL): boolean;
+
+  protected abstract threadPageUrl(threadId: string, page: number): string;
+
+  abstract login(username: string, password: string): Promise<CookieJar>;
+
+  // Whether a fetched page was served to a guest, i.e. the member session has lapsed
+  protected abstract isLoggedOut($: cheerio.CheerioAPI): boolean;
+
+  // Maps a link the adapter matched onto the origin pages are fetched from
+  protected normalizeUrl(url: string): string {
+    return url;
+  }
+
+  async parseThreadUrl(url: string): Promise<ThreadLocation> {
+    const normalizedUrl = this.normalizeUrl(url);
+    const location = this.readThreadLocation(new URL(normalizedUrl));
+
+    // Post links either lack the thread ID (/posts/456) or the page the post sits on; the forum knows both
+    if (location.postId && (!location.threadId || !location.currentPage)) {
+      const located = await this.locatePost(normalizedUrl);
+      location.threadId = location.threadId || located.threadId;
+      location.currentPage = location.currentPage || located.currentPage;
+    }
+
+    if (!location.threadId) {
+      throw new Error(`Invalid ${this.name} thread URL - could not extract thread ID`);
+    }
+
+    return { threadId: location.threadId, currentPage: location.currentPage, postId: location.postId };
+  }
+
+  private readThreadLocation(urlObj: URL): Partial<ThreadLocation> {
+    // Handle the URL formats vBulletin and XenForo boards use
     // Format 1: /threads/thread-name.threadId/
     // Format 2: /threads/threadId-thread-name/
-    // Format 3: /threads/threadId-thread-name/?page=X
+    // Format 3: /threads/threadId-thread-name/?page=X or /page-X
+    // Format 4: /showthread.php?t=threadId&page=X or /showthread.php/threadId-thread-name
+    // Post links: /threads/threadId-thread-name?p=postId#postpostId, /showthread.php?p=postId, /posts/postId
     
-    let threadId: string;
     let pathMatch = urlObj.pathname.match(/\/threads\/.*?\.(\d+)/);
     
     if (!pathMatch) {
       // Try alternative format: /threads/threadId-something/
-      pathMatch = urlObj.pathname.match(/\/threads\/(\d+)-/);
+      pathMatch = urlObj.pathname.match(/\/threads\/(\d+)(?:-|\/|$)/);
     }
     
     if (!pathMatch) {
       // Try another format: just extract any number from the path
       pathMatch = urlObj.pathname.match(/\/threads\/[^\/]*?(\d{6,})/);
     }
-    
+
     if (!pathMatch) {
-      throw new Error('Invalid ViperGirls thread URL - could not extract thread ID');
+      pathMatch = urlObj.pathname.match(/\/showthread\.php\/(\d+)/);
     }
     
-    threadId = pathMatch[1];
+    const threadId = pathMatch?.[1] || urlObj.searchParams.get('t') || undefined;
     
-    // Extract current page from URL parameters
-    const pageParam = urlObj.searchParams.get('page');
+    // Extract current page from URL parameters or the path
+    const pageParam = urlObj.searchParams.get('page') || urlObj.pathname.match(/\/page-?(\d+)\/?$/)?.[1];
     const currentPage = pageParam ? parseInt(pageParam, 10) : undefined;
+
+    const postId = urlObj.searchParams.get('p') ||
+                   urlObj.pathname.match(/\/posts\/(\d+)/)?.[1] ||
+                   urlObj.hash.match(/^#post-?(\d+)$/)?.[1] ||
+                   undefined;
     
-    return { threadId, currentPage };
+    return { threadId: threadId && /^\d+$/.test(threadId) ? threadId : undefined, currentPage, postId };
   }
 
-  async scrapeThreadPage(threadId: string, page: number): Promise<ScrapedImage[]> {
-    const url = `https://vipergirls.to/threads/${threadId}/page-${page}`;
-    
+  private async locatePost(url: string): Promise<Partial<ThreadLocation>> {
     try {
-      console.log(`Fetching URL: ${url}`);
-      const response = await axios.get(url, {
-        headers: { 
-          'User-Agent': this.userAgent,
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate, br',
-          'DNT': '1',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1',
-        },
-        timeout: 30000,
-      });
+      const response = await this.fetchForumPage(url);
 
+      // The forum redirects post links to the thread page holding the post
+      const finalUrl: string = response.request?.res?.responseUrl || url;
+      const located = this.readThreadLocation(new URL(finalUrl));
       const $ = cheerio.load(response.data);
-      const images: ScrapedImage[] = [];
+      return { threadId: located.threadId, currentPage: located.currentPage || this.extractCurrentPage($) };
+    } catch (error) {
+      console.error(`Error locating post from ${url}:`, error);
+      return {};
+    }
+  }
+
+  // Every page read goes through the shared cache, so a preview and the download that follows fetch each page once
+  private async fetchThreadPage(threadId: string, page: number, options: PageCacheOptions = {}): Promise<string> {
+    return pageCache.getPage(new URL(this.origin).hostname, threadId, page, async () => {
+      const url = this.threadPageUrl(threadId, page);
+      console.log(`Fetching URL: ${url}`);
+      const response = await this.fetchForumPage(url);
+      return response.data;
+    }, options);
+  }
+
+  // Fetches as the logged-in member when an account is set up, logging in again once if the page shows a guest view
+  private async fetchForumPage(url: string): Promise<AxiosResponse<string>> {
+    const cookies = await forumSessions.cookieHeader(this);
+    const response = await this.requestPage(url, cookies);
+    if (cookies === undefined) return response;
+
+    if (this.isLoggedOut(cheerio.load(response.data))) {
+      console.log(`${this.name} session has lapsed, logging in again`);
+      const refreshedCookies = await forumSessions.refresh(this);
+      if (refreshedCookies !== undefined) {
+        const retried = await this.requestPage(url, refreshedCookies);
+        await forumSessions.storeCookies(this, retried.headers['set-cookie']);
+        return retried;
+      }
+      return response;
+    }
 
-      console.log(`Page HTML length: ${response.data.length}`);
+    await forumSessions.storeCookies(this, response.headers['set-cookie']);
+    return response;
+  }
+
+  private async requestPage(url: string, cookies: string | undefined): Promise<AxiosResponse<string>> {
+    return requestScheduler.request<string>({
+      url,
+      headers: { 
+        'User-Agent': this.userAgent,
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.5',
+        'Accept-Encoding': 'gzip, deflate, br',
+        'DNT': '1',
+        'Connection': 'keep-alive',
+        'Upgrade-Insecure-Requests': '1',
+        ...(cookies ? { 'Cookie': cookies } : {}),
+      },
+      responseType: 'text',
+      timeout: 30000,
+    });
+  }
+
+  async scrapeThreadPage(threadId: string, page: number, options: PageCacheOptions = {}): Promise<ScrapedImage[]> {
+    const posts = await this.scrapeThreadPosts(threadId, page, options);
+    return posts.flatMap(post => post.images);
+  }
+
+  async scrapeThreadPosts(threadId: string, page: number, options: PageCacheOptions = {}): Promise<ScrapedPost[]> {
+    try {
+      const html = await this.fetchThreadPage(threadId, page, options);
+      console.log(`Page HTML length: ${html.length}`);
 
       // First, decode HTML entities in the entire response
-      const decodedHtml = response.data
+      const decodedHtml = html
         .replace(/&amp;/g, '&')
         .replace(/&lt;/g, '<')
         .replace(/&gt;/g, '>')
@@ -78,84 +256,27 @@ export class ViperGirlsScraper {
         .replace(/&#93;/g, ']');
       const $decoded = cheerio.load(decodedHtml);
 
-      // Look for image hosting URLs in the decoded HTML content
-      const imageHostUrls = new Set<string>();
-      
-      // Extract only ImageBam and Imgbox URLs as requested
-      const urlPatterns = [
-        /https?:\/\/(?:www\.)?imagebam\.com\/image\/[a-zA-Z0-9]+/g,
-        /https?:\/\/(?:www\.)?imgbox\.com\/[a-zA-Z0-9]+/g
-      ];
-
-      for (const pattern of urlPatterns) {
-        const matches = decodedHtml.match(pattern);
-        if (matches) {
-          matches.forEach((url: string) => imageHostUrls.add(url));
-        }
-      }
-
-      console.log(`Found ${imageHostUrls.size} image hosting URLs`);
-
-      // Now try to find these URLs in the DOM structure to get preview images
-      const postSelectors = [
-        '.message-body',
-        '.bbWrapper', 
-        '.post-content',
-        '.messageContent',
-        '.message-content',
-        'article .message',
-        '[data-lb-sidebar-href]',
-        '.js-post',
-        '.message',
-        '.post'
-      ];
-
-      let foundPosts = false;
-      for (const selector of postSelectors) {
-        const posts = $decoded(selector);
-        if (posts.length > 0) {
-          console.log(`Found ${posts.length} posts using selector: ${selector}`);
-          foundPosts = true;
-          
-          posts.each((_, element) => {
-            // Look for all links in this post
-            $decoded(element).find('a').each((_, linkElement) => {
-              const href = $decoded(linkElement).attr('href');
-              if (href && this.isImageHostingUrl(href)) {
-                // Try to find a preview image
-                const img = $decoded(linkElement).find('img');
-                let previewUrl = '';
-                
-                if (img.length > 0) {
-                  previewUrl = img.attr('src') || '';
-                } else {
-                  // If no preview image, try to construct one from the URL
-                  previewUrl = this.constructPreviewUrl(href);
-                }
-
-                console.log(`Found image: ${href} -> ${previewUrl}`);
-                images.push({
-                  previewUrl,
-                  hostingPage: href,
-                  hostingSite: this.extractHostingSite(href),
-                  pageNumber: page,
-                });
-              }
-            });
-            
-            // Also check for URLs in text content that might not be properly linked
-            const textContent = $decoded(element).text();
-            Array.from(imageHostUrls).forEach(url => {
-              if (textContent.includes(url) && !images.some(img => img.hostingPage === url)) {
-                const previewUrl = this.constructPreviewUrl(url);
-                console.log(`Found text URL: ${url} -> ${previewUrl}`);
-                images.push({
-                  previewUrl,
-                  hostingPage: url,
-                  hostingSite: this.extractHostingSite(url),
-                  pageNumber: page,
-                });
-              }
+      const posts: ScrapedPost[] = [];
+
+      for (const selector of [...this.postContainerSelectors, ...this.postBodySelectors]) {
+        const elements = $decoded(selector);
+        if (elements.length > 0) {
+          console.log(`Found ${elements.length} posts using selector: ${selector}`);
+          const isContainer = this.postContainerSelectors.includes(selector);
+
+          elements.each((index, element) => {
+            const post = isContainer
+              ? this.readPostContainer($decoded, element, page, index)
+              : { postId: `${page}-${index + 1}`, body: $decoded(element) };
+
+            const content = this.withoutQuotesAndSignatures(post.body);
+            posts.push({
+              postId: post.postId,
+              author: post.author,
+              postDate: post.postDate,
+              postText: content.text().replace(/\s+/g, ' ').trim(),
+              pageNumber: page,
+              images: this.extractPostImages($decoded, content, page, post.postId),
             });
           });
           break; // Use the first working selector
@@ -163,225 +284,253 @@ export class ViperGirlsScraper {
       }
 
       // If no posts found with selectors, scan for URLs in the entire page
-      if (!foundPosts && imageHostUrls.size > 0) {
+      const pageUrls = posts.length === 0 ? hostRegistry.findLinksInText(decodedHtml) : [];
+      if (pageUrls.length > 0) {
         console.log('No posts found with selectors, using direct URL extraction');
-        Array.from(imageHostUrls).forEach(url => {
-          const previewUrl = this.constructPreviewUrl(url);
-          console.log(`Direct URL: ${url} -> ${previewUrl}`);
-          images.push({
-            previewUrl,
-            hostingPage: url,
-            hostingSite: this.extractHostingSite(url),
-            pageNumber: page,
-          });
+        const postId = `${page}-page`;
+        posts.push({
+          postId,
+          postText: '',
+          pageNumber: page,
+          images: pageUrls.map(url => {
+            const previewUrl = this.constructPreviewUrl(url);
+            console.log(`Direct URL: ${url} -> ${previewUrl}`);
+            return {
+              previewUrl,
+              hostingPage: url,
+              hostingSite: this.extractHostingSite(url),
+              pageNumber: page,
+              postId,
+            };
+          }),
         });
       }
 
-      console.log(`Found ${images.length} images on page ${page}`);
-      return images;
+      for (const post of posts) {
+        post.images = await expandGalleries(post.images);
+      }
+      await this.recordScan(threadId, this.readThreadInfo($decoded, page), posts);
+
+      const imageCount = posts.reduce((count, post) => count + post.images.length, 0);
+      console.log(`Found ${imageCount} images in ${posts.length} posts on page ${page}`);
+      return posts;
     } catch (error) {
       console.error(`Error scraping page ${page}:`, error);
       throw new Error(`Failed to scrape page ${page}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async getFullResolutionUrl(hostingPageUrl: string): Promise<string> {
-    try {
-      const response = await axios.get(hostingPageUrl, {
-        headers: { 'User-Agent': this.userAgent },
-        timeout: 30000,
-      });
+  private readPostContainer(
+    $: cheerio.CheerioAPI,
+    element: AnyNode,
+    page: number,
+    index: number,
+  ): { postId: string; author?: string; postDate?: string; body: cheerio.Cheerio<AnyNode> } {
+    const container = $(element);
+
+    // XenForo: data-content="post-123", vBulletin: id="post_123"
+    const idSource = container.attr('data-content') || container.attr('id') || '';
+    const postId = idSource.match(/(\d+)/)?.[1] || `${page}-${index + 1}`;
+
+    const author = container.attr('data-author') ||
+                   container.find('.username, .message-name, .author').first().text().trim() ||
+                   undefined;
+    const postDate = container.find('time[datetime]').first().attr('datetime') ||
+                     container.find('.postdate .date, .date').first().text().replace(/\s+/g, ' ').trim() ||
+                     undefined;
+
+    const body = container.find('.bbWrapper, [id^="post_message_"], blockquote.postcontent, .message-body, .postcontent').first();
+    return { postId, author, postDate, body: body.length > 0 ? body : container };
+  }
 
-      const $ = cheerio.load(response.data);
-      const hostingSite = this.extractHostingSite(hostingPageUrl);
-
-      switch (hostingSite) {
-        case 'imagebam.com':
-          return this.extractImageBamUrl($);
-        case 'imgbox.com':
-          return this.extractImgBoxUrl($);
-        case 'imgur.com':
-          return this.extractImgurUrl($, hostingPageUrl);
-        case 'imagetwist.com':
-          return this.extractImageTwistUrl($);
-        case 'postimg.cc':
-          return this.extractPostImgUrl($);
-        default:
-          // Generic fallback - look for largest image
-          return this.extractGenericImageUrl($);
-      }
-    } catch (error) {
-      console.error(`Error extracting full resolution URL from ${hostingPageUrl}:`, error);
-      throw new Error(`Failed to extract image URL from ${hostingPageUrl}`);
-    }
+  private withoutQuotesAndSignatures(body: cheerio.Cheerio<AnyNode>): cheerio.Cheerio<AnyNode> {
+    // Work on a copy so the page document stays intact
+    const copy = body.clone();
+    copy.find(QUOTE_AND_SIGNATURE_SELECTOR).remove();
+    return copy;
   }
 
-  private isImageHostingUrl(url: string): boolean {
-    const hostingSites = [
-      'imgur.com',
-      'imagetwist.com',
-      'postimg.cc',
-      'imgbox.com',
-      'turboimagehost.com',
-      'imagebam.com',
-      'imagevenue.com'
-    ];
+  private extractPostImages(
+    $: cheerio.CheerioAPI,
+    content: cheerio.Cheerio<AnyNode>,
+    page: number,
+    postId: string,
+  ): ScrapedImage[] {
+    const images: ScrapedImage[] = [];
+    const seenIds = new Set<string>();
+    const isNew = (url: string) => {
+      const imageId = hostRegistry.canonicalImageId(url);
+      if (seenIds.has(imageId)) return false;
+      seenIds.add(imageId);
+      return true;
+    };
+
+    // Look for all links in this post
+    content.find('a').each((_, linkElement) => {
+      const href = $(linkElement).attr('href');
+      if (href && this.isPostImageUrl(href) && isNew(href)) {
+        // Try to find a preview image
+        const img = $(linkElement).find('img');
+        let previewUrl = '';
+        
+        if (img.length > 0) {
+          previewUrl = img.attr('src') || '';
+        } else {
+          // If no preview image, try to construct one from the URL
+          previewUrl = this.constructPreviewUrl(href);
+        }
+
+        console.log(`Found image: ${href} -> ${previewUrl}`);
+        images.push({
+          previewUrl,
+          hostingPage: href,
+          hostingSite: this.extractHostingSite(href),
+          pageNumber: page,
+          postId,
+        });
+      }
+    });
     
-    return hostingSites.some(site => url.includes(site));
+    // Images embedded without a link around them are the full images themselves
+    content.find('img').each((_, imageElement) => {
+      if ($(imageElement).closest('a[href]').length > 0) return;
+
+      const src = $(imageElement).attr('data-src') || $(imageElement).attr('data-url') || $(imageElement).attr('src');
+      if (!src) return;
+      let imageUrl: string;
+      try {
+        imageUrl = new URL(src, this.origin).toString();
+      } catch {
+        return;
+      }
+
+      if (this.extractHostingSite(imageUrl) === 'direct' && isNew(imageUrl)) {
+        console.log(`Found embedded image: ${imageUrl}`);
+        images.push({
+          previewUrl: imageUrl,
+          hostingPage: imageUrl,
+          hostingSite: 'direct',
+          pageNumber: page,
+          postId,
+        });
+      }
+    });
+
+    // Also check for URLs in text content that might not be properly linked
+    hostRegistry.findLinksInText(content.text(), true).forEach(url => {
+      if (isNew(url)) {
+        const previewUrl = this.constructPreviewUrl(url);
+        console.log(`Found text URL: ${url} -> ${previewUrl}`);
+        images.push({
+          previewUrl,
+          hostingPage: url,
+          hostingSite: this.extractHostingSite(url),
+          pageNumber: page,
+          postId,
+        });
+      }
+    });
+
+    return images;
   }
 
-  private extractHostingSite(url: string): string {
+  async getThreadInfo(threadId: string, page: number = 1, options: PageCacheOptions = {}): Promise<ThreadInfo> {
     try {
-      const hostname = new URL(url).hostname;
-      return hostname.replace('www.', '');
-    } catch {
-      return 'unknown';
+      const $ = cheerio.load(await this.fetchThreadPage(threadId, page, options));
+      const info = this.readThreadInfo($, page);
+      await this.recordScan(threadId, info);
+      return info;
+    } catch (error) {
+      console.error(`Error reading thread info for ${threadId}:`, error);
+      throw new Error(`Failed to read thread info: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  private extractImgurUrl($: cheerio.CheerioAPI, originalUrl: string): string {
-    // Try to find the direct image URL
-    const directImage = $('link[rel="image_src"]').attr('href');
-    if (directImage) return directImage;
-
-    // Fallback: construct direct URL from imgur ID
-    const idMatch = originalUrl.match(/imgur\.com\/([a-zA-Z0-9]+)/);
-    if (idMatch) {
-      return `https://i.imgur.com/${idMatch[1]}.jpg`;
-    }
-
-    throw new Error('Could not extract imgur image URL');
+  private readThreadInfo($: cheerio.CheerioAPI, page: number): ThreadInfo {
+    const threadTitle = $('.p-title-value, .threadtitle, h1, .thread-title, title').first().text().trim();
+    return {
+      threadTitle: threadTitle || undefined,
+      totalPages: Math.max(page, this.extractTotalPages($)),
+    };
   }
 
-  private extractImageTwistUrl($: cheerio.CheerioAPI): string {
-    const imageUrl = $('.pic img').attr('src') || $('#image').attr('src');
-    if (!imageUrl) {
-      throw new Error('Could not find image on ImageTwist page');
-    }
-    return imageUrl.startsWith('//') ? `https:${imageUrl}` : imageUrl;
-  }
+  // Keeps the thread's row in the threads table current; a failed write never fails the scan
+  private async recordScan(threadId: string, info: ThreadInfo, posts: ScrapedPost[] = []): Promise<void> {
+    // Placeholder IDs such as "2-5" are used for posts the markup gives no ID
+    const postIds = posts.map(post => post.postId).filter(postId => /^\d+$/.test(postId));
+    const lastPostId = postIds.sort((a, b) => Number(b) - Number(a))[0];
 
-  private extractPostImgUrl($: cheerio.CheerioAPI): string {
-    const imageUrl = $('#main-image').attr('src') || $('.image img').attr('src');
-    if (!imageUrl) {
-      throw new Error('Could not find image on PostImg page');
+    try {
+      await storage.recordThreadScan({
+        forumOrigin: this.origin,
+        forumThreadId: threadId,
+        canonicalUrl: this.threadPageUrl(threadId, 1),
+        title: info.threadTitle ?? null,
+        pageCount: info.totalPages,
+        lastScannedAt: new Date(),
+        lastPostId: lastPostId ?? null,
+      });
+    } catch (error) {
+      console.error(`Error recording scan of thread ${threadId}:`, error);
     }
-    return imageUrl.startsWith('//') ? `https:${imageUrl}` : imageUrl;
   }
 
-  private extractImageBamUrl($: cheerio.CheerioAPI): string {
-    // ImageBam stores the full image URL in various places
-    const imageUrl = $('.main-image img').attr('src') || 
-                    $('#image').attr('src') || 
-                    $('img[src*="images2.imagebam.com"]').attr('src') ||
-                    $('img[src*="images3.imagebam.com"]').attr('src') ||
-                    $('img[src*="images4.imagebam.com"]').attr('src');
-    
-    if (!imageUrl) {
-      throw new Error('Could not find image on ImageBam page');
+  private extractCurrentPage($: cheerio.CheerioAPI): number {
+    const pageOfMatch = $('.pagination, .pageNav, .pagenav').text().match(/Page\s+(\d+)\s+of\s+\d+/i);
+    if (pageOfMatch) {
+      return parseInt(pageOfMatch[1], 10);
     }
-    return imageUrl.startsWith('//') ? `https:${imageUrl}` : imageUrl;
+
+    const current = $('.pageNav-page--current, .pagination .selected, .pagenav .selected').first().text().trim();
+    return /^\d+$/.test(current) ? parseInt(current, 10) : 1;
   }
 
-  private extractImgBoxUrl($: cheerio.CheerioAPI): string {
-    const imageUrl = $('#img').attr('src') || $('.image img').attr('src');
-    if (!imageUrl) {
-      throw new Error('Could not find image on ImgBox page');
+  private extractTotalPages($: cheerio.CheerioAPI): number {
+    // vBulletin prints "Page 3 of 12" in its pagination control
+    const pageOfMatch = $('.pagination, .pageNav, .pagenav').text().match(/Page\s+\d+\s+of\s+(\d+)/i);
+    if (pageOfMatch) {
+      return parseInt(pageOfMatch[1], 10);
     }
-    return imageUrl.startsWith('//') ? `https:${imageUrl}` : imageUrl;
-  }
 
-  private extractGenericImageUrl($: cheerio.CheerioAPI): string {
-    // Look for common image selectors
-    const selectors = [
-      'img[src*=".jpg"]',
-      'img[src*=".jpeg"]',
-      'img[src*=".png"]',
-      'img[src*=".gif"]',
-      'img[src*=".webp"]'
-    ];
-
-    for (const selector of selectors) {
-      const img = $(selector).first();
-      const src = img.attr('src');
-      if (src && !src.includes('thumbnail') && !src.includes('preview')) {
-        return src.startsWith('//') ? `https:${src}` : src;
+    // Otherwise take the highest page number linked from the pagination
+    let totalPages = 1;
+    $('.pageNav-main a, .pageNav a, .pagination a, .pagenav a').each((_, element) => {
+      const href = $(element).attr('href') || '';
+      const hrefMatch = href.match(/(?:page-?|[?&]page=)(\d+)/);
+      const candidates = [$(element).text().trim(), hrefMatch?.[1]];
+      for (const candidate of candidates) {
+        const pageNumber = candidate && /^\d+$/.test(candidate) ? parseInt(candidate, 10) : 0;
+        totalPages = Math.max(totalPages, pageNumber);
       }
-    }
+    });
+    return totalPages;
+  }
+
+  private isPostImageUrl(url: string): boolean {
+    return hostRegistry.isPostImageUrl(url);
+  }
 
-    throw new Error('Could not find image URL on page');
+  private extractHostingSite(url: string): string {
+    return hostRegistry.getHostingSite(url);
   }
 
   private constructPreviewUrl(hostingPageUrl: string): string {
-    try {
-      const hostingSite = this.extractHostingSite(hostingPageUrl);
-      
-      switch (hostingSite) {
-        case 'imagebam.com':
-          // Extract ID from imagebam URL and construct thumbnail
-          // URL format: https://www.imagebam.com/image/abc123
-          const imagebamMatch = hostingPageUrl.match(/imagebam\.com\/image\/([a-zA-Z0-9]+)/);
-          if (imagebamMatch) {
-            const imageId = imagebamMatch[1];
-            // ImageBam thumbnail format: https://thumbs2.imagebam.com/abc/123/abc123_t.jpg
-            const prefix = imageId.substring(0, 3);
-            const suffix = imageId.substring(3, 6);
-            return `https://thumbs2.imagebam.com/${prefix}/${suffix}/${imageId}_t.jpg`;
-          }
-          break;
-        
-        case 'imgbox.com':
-          // Extract ID from imgbox URL and construct thumbnail
-          const imgboxMatch = hostingPageUrl.match(/imgbox\.com\/([a-zA-Z0-9]+)/);
-          if (imgboxMatch) {
-            return `https://thumbs2.imgbox.com/t_${imgboxMatch[1]}.jpg`;
-          }
-          break;
-        
-        default:
-          return hostingPageUrl; // Return original URL as fallback
-      }
-      
-      return hostingPageUrl;
-    } catch {
-      return hostingPageUrl;
-    }
+    return hostRegistry.buildPreviewUrl(hostingPageUrl);
   }
 
-  async extractPageText(threadId: string, page: number): Promise<string> {
-    const url = `https://vipergirls.to/threads/${threadId}/page-${page}`;
-    
+  async extractPageText(threadId: string, page: number, options: PageCacheOptions = {}): Promise<string> {
     try {
-      const response = await axios.get(url, {
-        headers: { 
-          'User-Agent': this.userAgent,
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        },
-        timeout: 30000,
-      });
-
-      const $ = cheerio.load(response.data);
+      const $ = cheerio.load(await this.fetchThreadPage(threadId, page, options));
       
       // Extract text from posts, excluding quotes and signatures
       const postTexts: string[] = [];
-      const postSelectors = [
-        '.message-body',
-        '.bbWrapper', 
-        '.post-content',
-        '.messageContent',
-        '.message-content',
-        'article .message',
-        '.js-post',
-        '.message',
-        '.post'
-      ];
-
-      for (const selector of postSelectors) {
+
+      for (const selector of this.postBodySelectors) {
         const posts = $(selector);
         if (posts.length > 0) {
           posts.each((_, element) => {
             // Remove quoted content and signatures
-            $(element).find('.bbCodeQuote, .signature, .quote').remove();
+            $(element).find(QUOTE_AND_SIGNATURE_SELECTOR).remove();
             const text = $(element).text().trim();
             if (text.length > 20) { // Only include substantial text
               postTexts.push(text);
@@ -0,0 +1,82 @@
+import type { ExportFormat, ManifestEntry } from '@shared/schema';
+
+export interface SessionExport {
+  contentType: string;
+  fileName: string;
+  body: string;
+}
+
+const CSV_COLUMNS: Array<[string, (entry: ManifestEntry) => string | number | undefined]> = [
+  ['page', entry => entry.pageNumber],
+  ['post', entry => entry.postId],
+  ['gallery', entry => entry.galleryId],
+  ['status', entry => entry.status],
+  ['hosting_site', entry => entry.hostingSite],
+  ['hosting_page', entry => entry.hostingPage],
+  ['direct_url', entry => entry.directUrl],
+  ['filename', entry => entry.filename],
+  ['file_size', entry => entry.fileSize],
+  ['attempts', entry => entry.attempts],
+];
+
+// Renders a session's manifest in one of the export formats offered by the history card
+export function exportManifest(sessionId: number, entries: ManifestEntry[], format: ExportFormat): SessionExport {
+  const baseName = `vripper_session_${sessionId}`;
+
+  switch (format) {
+    case 'txt':
+      return {
+        contentType: 'text/plain; charset=utf-8',
+        fileName: `${baseName}.txt`,
+        // The direct image where the scan or download resolved it, otherwise the hosting page
+        body: entries.map(entry => entry.directUrl || entry.hostingPage).join('\n') + '\n',
+      };
+    case 'json':
+      return {
+        contentType: 'application/json; charset=utf-8',
+        fileName: `${baseName}.json`,
+        body: JSON.stringify(entries, null, 2),
+      };
+    case 'csv':
+      return {
+        contentType: 'text/csv; charset=utf-8',
+        fileName: `${baseName}.csv`,
+        body: [
+          CSV_COLUMNS.map(([name]) => name).join(','),
+          ...entries.map(entry => CSV_COLUMNS.map(([, value]) => csvField(value(entry))).join(',')),
+        ].join('\n') + '\n',
+      };
+    case 'aria2':
+      return {
+        contentType: 'text/plain; charset=utf-8',
+        fileName: `${baseName}_aria2.txt`,
+        body: entries.map(aria2Entry).join('\n'),
+      };
+  }
+}
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// aria2c needs the image itself; hosting pages that were never resolved are listed as comments
+function aria2Entry(entry: ManifestEntry): string {
+  if (!entry.directUrl) {
+    return `# Not resolved yet: ${entry.hostingPage}\n`;
+  }
+
+  // Same folder layout as the download manager writes
+  const dir = [
+    `page_${entry.pageNumber}`,
+    entry.postId && `post_${entry.postId}`,
+    entry.galleryId && `gallery_${entry.galleryId}`,
+  ].filter(Boolean).join('/');
+
+  return [
+    entry.directUrl,
+    `  dir=${dir}`,
+    `  out=${entry.filename}`,
+    `  referer=${entry.hostingPage}`,
+  ].join('\n') + '\n';
+}
@@ -0,0 +1,41 @@
+import { storage } from '../storage';
+import { downloadManager } from './downloader';
+import { downloadQueue } from './download-queue';
+import type { DownloadSession } from '@shared/schema';
+
+export type InterruptedSessionPolicy = 'requeue' | 'interrupted';
+
+// Sessions a previous run of the server was downloading: every active one, and pending ones that had already
+// started (resumed or promoted but not queued again); a pending session that never started is left as it is
+function wasInterrupted(session: DownloadSession): boolean {
+  return session.status === 'active' || (session.status === 'pending' && session.startedAt != null);
+}
+
+// Runs once at boot, before the queue picks up work, so no session is repaired while it downloads
+export async function recoverInterruptedSessions(policy: InterruptedSessionPolicy): Promise<void> {
+  const sessions = (await storage.getSessionsWithStatus(['pending', 'active'])).filter(wasInterrupted);
+  if (sessions.length === 0) return;
+
+  for (const session of sessions) {
+    try {
+      await downloadManager.repairSession(session);
+      if (policy === 'requeue') {
+        // Active sessions were cut off mid-run, so they are queued straight from that state
+        await downloadQueue.enqueue(session.id, ['pending', 'active']);
+      } else {
+        await storage.updateDownloadSession(session.id, {
+          status: 'interrupted',
+          errorMessage: 'Interrupted by a server restart',
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to recover session ${session.id}:`, error);
+    }
+  }
+
+  console.log(`Recovered ${sessions.length} interrupted sessions (${policy === 'requeue' ? 'queued again' : 'left for a manual resume'})`);
+}
+
+// INTERRUPTED_SESSIONS chooses what happens to sessions cut off by a restart: `requeue` (default) or `interrupted`
+export const interruptedSessionPolicy: InterruptedSessionPolicy =
+  process.env.INTERRUPTED_SESSIONS === 'interrupted' ? 'interrupted' : 'requeue';
@@ -0,0 +1,153 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { requestScheduler } from './request-scheduler';
+import { PUBLIC_WEB_REQUEST } from './public-address';
+
+export interface CachedThumbnail {
+  filePath: string;
+  contentType: string;
+}
+
+interface CacheEntry {
+  fileName: string;
+  size: number;
+}
+
+const DEFAULT_MAX_MEGABYTES = 200;
+const MAX_THUMBNAIL_BYTES = 5 * 1024 * 1024;
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+// Thumbnails fetched on behalf of the preview grid, kept on disk up to a size cap and evicted least recently used first
+export class ThumbnailCache {
+  // Map order is the LRU order: the first entry is evicted first
+  private entries: Map<string, CacheEntry>;
+  private pending: Map<string, Promise<CachedThumbnail>>;
+  private cacheDir: string;
+  private maxBytes: number;
+  private totalBytes: number;
+
+  constructor(maxMegabytes: number = DEFAULT_MAX_MEGABYTES) {
+    this.entries = new Map();
+    this.pending = new Map();
+    this.cacheDir = path.join(process.cwd(), 'cache', 'thumbs');
+    this.maxBytes = maxMegabytes * 1024 * 1024;
+    this.totalBytes = 0;
+
+    // Ensure cache directory exists
+    if (!fs.existsSync(this.cacheDir)) {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+    }
+    this.loadFromDisk();
+  }
+
+  async get(url: string): Promise<CachedThumbnail> {
+    const key = crypto.createHash('sha1').update(url).digest('hex');
+
+    const entry = this.entries.get(key);
+    if (entry && fs.existsSync(this.diskPath(entry.fileName))) {
+      this.touch(key, entry);
+      return this.toThumbnail(entry);
+    }
+
+    // Grids request the same thumbnail from several cards at once; fetch it once
+    const pending = this.pending.get(key);
+    if (pending) return pending;
+
+    const download = this.download(key, url).finally(() => {
+      this.pending.delete(key);
+    });
+    this.pending.set(key, download);
+    return download;
+  }
+
+  private async download(key: string, url: string): Promise<CachedThumbnail> {
+    const response = await requestScheduler.request<ArrayBuffer>({
+      url,
+      headers: {
+        'User-Agent': USER_AGENT,
+        'Accept': 'image/avif,image/webp,image/*,*/*;q=0.8',
+        // Hosts reject hot-linked thumbnails unless they appear to be browsed on the host itself
+        'Referer': `${new URL(url).origin}/`,
+      },
+      responseType: 'arraybuffer',
+      maxContentLength: MAX_THUMBNAIL_BYTES,
+      timeout: 30000,
+      ...PUBLIC_WEB_REQUEST,
+    });
+
+    const contentType = String(response.headers['content-type'] || '').split(';')[0].trim();
+    const extension = Object.keys(CONTENT_TYPES).find(ext => CONTENT_TYPES[ext] === contentType);
+    if (!extension) {
+      throw new Error(`Thumbnail is not an image (${contentType || 'no content type'})`);
+    }
+
+    const data = Buffer.from(response.data);
+    const entry = { fileName: `${key}.${extension}`, size: data.length };
+    const tempPath = this.diskPath(`${entry.fileName}.tmp`);
+    await fs.promises.writeFile(tempPath, data);
+    await fs.promises.rename(tempPath, this.diskPath(entry.fileName));
+
+    const previous = this.entries.get(key);
+    if (previous) this.totalBytes -= previous.size;
+    this.entries.set(key, entry);
+    this.totalBytes += entry.size;
+    this.evict();
+    return this.toThumbnail(entry);
+  }
+
+  private touch(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    // The modification time carries the LRU order across restarts
+    const now = new Date();
+    fs.promises.utimes(this.diskPath(entry.fileName), now, now).catch(() => {});
+  }
+
+  private evict(): void {
+    for (const [key, entry] of Array.from(this.entries)) {
+      if (this.totalBytes <= this.maxBytes) break;
+      this.entries.delete(key);
+      this.totalBytes -= entry.size;
+      fs.promises.unlink(this.diskPath(entry.fileName)).catch(() => {});
+    }
+  }
+
+  private loadFromDisk(): void {
+    const files = fs.readdirSync(this.cacheDir)
+      .filter(fileName => !fileName.endsWith('.tmp'))
+      .map(fileName => ({ fileName, stats: fs.statSync(this.diskPath(fileName)) }))
+      .sort((a, b) => a.stats.mtimeMs - b.stats.mtimeMs);
+
+    for (const { fileName, stats } of files) {
+      const key = fileName.split('.')[0];
+      this.entries.set(key, { fileName, size: stats.size });
+      this.totalBytes += stats.size;
+    }
+    this.evict();
+  }
+
+  private toThumbnail(entry: CacheEntry): CachedThumbnail {
+    const extension = path.extname(entry.fileName).substring(1);
+    return {
+      filePath: this.diskPath(entry.fileName),
+      contentType: CONTENT_TYPES[extension] || 'application/octet-stream',
+    };
+  }
+
+  private diskPath(fileName: string): string {
+    return path.join(this.cacheDir, fileName);
+  }
+}
+
+// THUMB_CACHE_MAX_MB caps the disk space thumbnails may take
+const configuredMaxMegabytes = parseInt(process.env.THUMB_CACHE_MAX_MB || '', 10);
+export const thumbnailCache = new ThumbnailCache(isNaN(configuredMaxMegabytes) ? DEFAULT_MAX_MEGABYTES : configuredMaxMegabytes);
@@ -0,0 +1,43 @@
+const DEFAULT_TRANSFER_CONCURRENCY = 6;
+
+// Image transfers allowed in flight across every running session; each session's own limit only divides this up
+export class TransferBudget {
+  private active: number;
+  private waiters: Array<() => void>;
+  private limit: number;
+
+  constructor(limit: number = DEFAULT_TRANSFER_CONCURRENCY) {
+    this.active = 0;
+    this.waiters = [];
+    this.limit = Math.max(1, limit);
+  }
+
+  // Resolves false instead of taking a slot when the signal aborts while waiting, so a paused session leaves the line
+  async acquire(signal: AbortSignal): Promise<boolean> {
+    while (this.active >= this.limit) {
+      if (signal.aborted) return false;
+      await new Promise<void>(resolve => {
+        const wake = () => {
+          signal.removeEventListener('abort', wake);
+          this.waiters = this.waiters.filter(waiter => waiter !== wake);
+          resolve();
+        };
+        this.waiters.push(wake);
+        signal.addEventListener('abort', wake, { once: true });
+      });
+    }
+    if (signal.aborted) return false;
+
+    this.active++;
+    return true;
+  }
+
+  release(): void {
+    this.active--;
+    this.waiters.shift()?.();
+  }
+}
+
+// DOWNLOAD_TRANSFER_CONCURRENCY is how many images may be transferred at the same time across the server
+const configuredLimit = parseInt(process.env.DOWNLOAD_TRANSFER_CONCURRENCY || '', 10);
+export const transferBudget = new TransferBudget(isNaN(configuredLimit) ? DEFAULT_TRANSFER_CONCURRENCY : configuredLimit);
@@ -1,22 +1,42 @@
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
-import { downloadSessions, downloadedImages } from '@shared/schema';
-import { eq, desc } from 'drizzle-orm';
-import type { DownloadSession, DownloadedImage, InsertDownloadSession, InsertDownloadedImage } from "@shared/schema";
+import { downloadSessions, downloadedImages, downloadBatches, forumAccounts, threads } from '@shared/schema';
+import { eq, desc, and, sql, inArray } from 'drizzle-orm';
+import type { DownloadSession, DownloadedImage, InsertDownloadSession, InsertDownloadedImage, DownloadBatch, ForumAccount, InsertForumAccount, Thread, InsertThread } from "@shared/schema";
 
 export interface IStorage {
   // Download Sessions
   createDownloadSession(session: InsertDownloadSession): Promise<DownloadSession>;
   getDownloadSession(id: number): Promise<DownloadSession | undefined>;
   updateDownloadSession(id: number, updates: Partial<DownloadSession>): Promise<DownloadSession | undefined>;
+  // Applies the updates only while the session is in one of the given statuses; undefined when it was not
+  transitionDownloadSession(id: number, fromStatuses: string[], updates: Partial<DownloadSession>): Promise<DownloadSession | undefined>;
   getAllDownloadSessions(): Promise<DownloadSession[]>;
   deleteDownloadSession(id: number): Promise<boolean>;
+  getSessionsForBatch(batchId: number): Promise<DownloadSession[]>;
+  getQueuedSessions(): Promise<DownloadSession[]>;
+  getSessionsWithStatus(statuses: string[]): Promise<DownloadSession[]>;
+
+  // Download Batches
+  createDownloadBatch(): Promise<DownloadBatch>;
+  getDownloadBatch(id: number): Promise<DownloadBatch | undefined>;
+  updateDownloadBatch(id: number, updates: Partial<DownloadBatch>): Promise<DownloadBatch | undefined>;
 
   // Downloaded Images
   createDownloadedImage(image: InsertDownloadedImage): Promise<DownloadedImage>;
   getDownloadedImagesForSession(sessionId: number): Promise<DownloadedImage[]>;
   updateDownloadedImage(id: number, updates: Partial<DownloadedImage>): Promise<DownloadedImage | undefined>;
   getActiveDownloadsForSession(sessionId: number): Promise<DownloadedImage[]>;
+
+  // Forum Accounts
+  getForumAccount(forumOrigin: string): Promise<ForumAccount | undefined>;
+  saveForumAccount(account: InsertForumAccount): Promise<ForumAccount>;
+  updateForumAccount(forumOrigin: string, updates: Partial<ForumAccount>): Promise<ForumAccount | undefined>;
+  deleteForumAccount(forumOrigin: string): Promise<boolean>;
+
+  // Threads
+  getThread(forumOrigin: string, forumThreadId: string): Promise<Thread | undefined>;
+  recordThreadScan(scan: InsertThread): Promise<Thread>;
 }
 
 class PostgresStorage implements IStorage {
@@ -42,6 +62,13 @@ class PostgresStorage implements IStorage {
     return result;
   }
 
+  async transitionDownloadSession(id: number, fromStatuses: string[], updates: Partial<DownloadSession>): Promise<DownloadSession | undefined> {
+    const [result] = await this.db.update(downloadSessions).set(updates)
+      .where(and(eq(downloadSessions.id, id), inArray(downloadSessions.status, fromStatuses)))
+      .returning();
+    return result;
+  }
+
   async getAllDownloadSessions(): Promise<DownloadSession[]> {
     return await this.db.select().from(downloadSessions).orderBy(desc(downloadSessions.id));
   }
@@ -59,6 +86,35 @@ class PostgresStorage implements IStorage {
     }
   }
 
+  async getSessionsForBatch(batchId: number): Promise<DownloadSession[]> {
+    return await this.db.select().from(downloadSessions).where(eq(downloadSessions.batchId, batchId)).orderBy(downloadSessions.id);
+  }
+
+  async getQueuedSessions(): Promise<DownloadSession[]> {
+    return await this.db.select().from(downloadSessions)
+      .where(eq(downloadSessions.status, 'queued'))
+      .orderBy(desc(downloadSessions.priority), downloadSessions.id);
+  }
+
+  async getSessionsWithStatus(statuses: string[]): Promise<DownloadSession[]> {
+    return await this.db.select().from(downloadSessions).where(inArray(downloadSessions.status, statuses)).orderBy(downloadSessions.id);
+  }
+
+  async createDownloadBatch(): Promise<DownloadBatch> {
+    const [result] = await this.db.insert(downloadBatches).values({}).returning();
+    return result;
+  }
+
+  async getDownloadBatch(id: number): Promise<DownloadBatch | undefined> {
+    const [result] = await this.db.select().from(downloadBatches).where(eq(downloadBatches.id, id));
+    return result;
+  }
+
+  async updateDownloadBatch(id: number, updates: Partial<DownloadBatch>): Promise<DownloadBatch | undefined> {
+    const [result] = await this.db.update(downloadBatches).set(updates).where(eq(downloadBatches.id, id)).returning();
+    return result;
+  }
+
   async createDownloadedImage(image: InsertDownloadedImage): Promise<DownloadedImage> {
     const [result] = await this.db.insert(downloadedImages).values(image).returning();
     return result;
@@ -76,6 +132,52 @@ class PostgresStorage implements IStorage {
   async getActiveDownloadsForSession(sessionId: number): Promise<DownloadedImage[]> {
     return await this.db.select().from(downloadedImages).where(eq(downloadedImages.sessionId, sessionId));
   }
+
+  async getForumAccount(forumOrigin: string): Promise<ForumAccount | undefined> {
+    const [result] = await this.db.select().from(forumAccounts).where(eq(forumAccounts.forumOrigin, forumOrigin));
+    return result;
+  }
+
+  async saveForumAccount(account: InsertForumAccount): Promise<ForumAccount> {
+    // One account per forum; saving again replaces the credentials and session
+    const [result] = await this.db.insert(forumAccounts).values(account)
+      .onConflictDoUpdate({ target: forumAccounts.forumOrigin, set: account })
+      .returning();
+    return result;
+  }
+
+  async updateForumAccount(forumOrigin: string, updates: Partial<ForumAccount>): Promise<ForumAccount | undefined> {
+    const [result] = await this.db.update(forumAccounts).set(updates).where(eq(forumAccounts.forumOrigin, forumOrigin)).returning();
+    return result;
+  }
+
+  async deleteForumAccount(forumOrigin: string): Promise<boolean> {
+    const result = await this.db.delete(forumAccounts).where(eq(forumAccounts.forumOrigin, forumOrigin)).returning();
+    return result.length > 0;
+  }
+
+  async getThread(forumOrigin: string, forumThreadId: string): Promise<Thread | undefined> {
+    const [result] = await this.db.select().from(threads)
+      .where(and(eq(threads.forumOrigin, forumOrigin), eq(threads.forumThreadId, forumThreadId)));
+    return result;
+  }
+
+  async recordThreadScan(scan: InsertThread): Promise<Thread> {
+    // A scan of one page must not erase what earlier scans learned: keep the known title, the highest page count and post ID
+    const [result] = await this.db.insert(threads).values(scan)
+      .onConflictDoUpdate({
+        target: [threads.forumOrigin, threads.forumThreadId],
+        set: {
+          canonicalUrl: sql`excluded.canonical_url`,
+          title: sql`coalesce(excluded.title, ${threads.title})`,
+          pageCount: sql`greatest(excluded.page_count, ${threads.pageCount})`,
+          lastScannedAt: sql`excluded.last_scanned_at`,
+          lastPostId: sql`case when ${threads.lastPostId} is null or excluded.last_post_id::bigint > ${threads.lastPostId}::bigint then excluded.last_post_id else ${threads.lastPostId} end`,
+        },
+      })
+      .returning();
+    return result;
+  }
 }
 
 export const storage = new PostgresStorage();
\ No newline at end of file
@@ -1,17 +1,23 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export const downloadSessions = pgTable("download_sessions", {
   id: serial("id").primaryKey(),
-  threadUrl: text("thread_url").notNull(),
+  threadUrl: text("thread_url"), // Null for sessions imported from pasted host links
+  threadId: integer("thread_id").references(() => threads.id), // Set once the thread has been read
   threadTitle: text("thread_title"),
+  batchId: integer("batch_id").references(() => downloadBatches.id), // Set when the thread was submitted with others in one batch
   fromPage: integer("from_page").notNull(),
   toPage: integer("to_page").notNull(),
+  toLastPage: boolean("to_last_page").default(false), // toPage is resolved to the thread's last page when the download starts
+  targetPostId: text("target_post_id"), // Only download images from this post
+  scanOnly: boolean("scan_only").default(false), // Resolve and list the images without downloading them
   totalImages: integer("total_images").default(0),
   completedImages: integer("completed_images").default(0),
   failedImages: integer("failed_images").default(0),
-  status: text("status").notNull().default("pending"), // pending, active, completed, failed, cancelled
+  status: text("status").notNull().default("pending"), // pending, queued, active, paused, interrupted, scanned, completed, failed, cancelled
+  priority: integer("priority").notNull().default(0), // Higher priorities leave the queue first
   outputFormat: text("output_format").notNull().default("individual"), // individual, zip
   downloadLocation: text("download_location").notNull().default("local"), // local, google-drive
   customDirectory: text("custom_directory"), // Custom local directory path
@@ -30,13 +36,50 @@ export const downloadedImages = pgTable("downloaded_images", {
   id: serial("id").primaryKey(),
   sessionId: integer("session_id").notNull(),
   pageNumber: integer("page_number").notNull(),
+  postId: text("post_id"), // Forum post the image was published in
+  galleryId: text("gallery_id"), // Host gallery the image was expanded from
   originalUrl: text("original_url").notNull(),
+  resolvedUrl: text("resolved_url"), // Full resolution image URL, once the hosting page has been read
   hostingSite: text("hosting_site"),
   filename: text("filename").notNull(),
   fileSize: integer("file_size"),
   status: text("status").notNull().default("pending"), // pending, downloading, completed, failed
   progress: integer("progress").default(0),
   errorMessage: text("error_message"),
+  attempts: integer("attempts").notNull().default(0), // Download tries so far, retries included
+  lastAttemptAt: timestamp("last_attempt_at"),
+});
+
+// Threads submitted together; each thread gets its own session pointing back here
+export const downloadBatches = pgTable("download_batches", {
+  id: serial("id").primaryKey(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  cancelledAt: timestamp("cancelled_at"),
+});
+
+// One row per forum thread, kept current by every scan of its pages
+export const threads = pgTable("threads", {
+  id: serial("id").primaryKey(),
+  forumOrigin: text("forum_origin").notNull(),
+  forumThreadId: text("forum_thread_id").notNull(),
+  canonicalUrl: text("canonical_url").notNull(),
+  title: text("title"),
+  pageCount: integer("page_count"),
+  firstSeenAt: timestamp("first_seen_at").notNull().defaultNow(),
+  lastScannedAt: timestamp("last_scanned_at"),
+  lastPostId: text("last_post_id"), // Highest post ID seen in any scan
+}, (table) => [
+  unique("threads_forum_thread_unique").on(table.forumOrigin, table.forumThreadId),
+]);
+
+export const forumAccounts = pgTable("forum_accounts", {
+  id: serial("id").primaryKey(),
+  forumOrigin: text("forum_origin").notNull().unique(), // e.g. https://vipergirls.to
+  username: text("username").notNull(),
+  password: text("password").notNull(), // Encrypted with FORUM_CREDENTIALS_KEY, server-side only, never returned by the API
+  cookieJar: text("cookie_jar"), // JSON of the forum's session cookies
+  loggedInAt: timestamp("logged_in_at"),
+  lastError: text("last_error"), // Why the last login attempt failed
 });
 
 export const insertDownloadSessionSchema = createInsertSchema(downloadSessions).omit({
@@ -49,16 +92,56 @@ export const insertDownloadedImageSchema = createInsertSchema(downloadedImages).
   id: true,
 });
 
+export const insertForumAccountSchema = createInsertSchema(forumAccounts).omit({
+  id: true,
+});
+
+export const insertThreadSchema = createInsertSchema(threads).omit({
+  id: true,
+  firstSeenAt: true,
+});
+
 export type InsertDownloadSession = z.infer<typeof insertDownloadSessionSchema>;
 export type InsertDownloadedImage = z.infer<typeof insertDownloadedImageSchema>;
 export type DownloadSession = typeof downloadSessions.$inferSelect;
 export type DownloadedImage = typeof downloadedImages.$inferSelect;
+export type InsertForumAccount = z.infer<typeof insertForumAccountSchema>;
+export type ForumAccount = typeof forumAccounts.$inferSelect;
+export type InsertThread = z.infer<typeof insertThreadSchema>;
+export type Thread = typeof threads.$inferSelect;
+export type DownloadBatch = typeof downloadBatches.$inferSelect;
 
 // API types
+export type ParsedThreadUrl = {
+  threadId: string;
+  currentPage?: number;
+  postId?: string;
+  totalPages?: number;
+  threadTitle?: string;
+};
+
+export type ForumSettings = {
+  origin: string; // Where thread pages are fetched from
+  domains: string[]; // Domains whose thread links are accepted, the origin's first
+  genericDomains: string[]; // Other vBulletin and XenForo boards that may be read
+  imageHosts: string[]; // Domains of the image hosts whose page links can be imported
+};
+
+// What the client may know about the forum account: never the credentials themselves
+export type ForumAccountStatus = {
+  configured: boolean;
+  loggedIn: boolean;
+  loggedInAt?: string;
+  lastError?: string;
+};
+
 export type DownloadRequest = {
   threadUrl: string;
   fromPage: number;
-  toPage: number;
+  toPage: number | "last";
+  postId?: string; // Download only this post, on the page it sits on
+  scanOnly?: boolean; // Stop after listing the images; the session can be promoted to a download later
+  priority?: number; // Place in the download queue, higher first
   outputFormat: "individual" | "zip";
   downloadLocation: "local";
   customDirectory?: string;
@@ -71,9 +154,53 @@ export type DownloadRequest = {
     hostingPage: string;
     hostingSite: string;
     pageNumber: number;
+    postId?: string;
+    galleryId?: string;
   }[];
 };
 
+// Sessions downloading now and those waiting, in the order they will start
+export type QueueState = {
+  concurrency: number;
+  active: DownloadSession[];
+  queued: Array<DownloadSession & { position: number }>;
+};
+
+// Several threads with their own page ranges, downloaded with the same options
+export type BatchDownloadRequest = Omit<DownloadRequest, "threadUrl" | "fromPage" | "toPage" | "postId" | "selectedImages"> & {
+  threads: Array<Pick<DownloadRequest, "threadUrl" | "fromPage" | "toPage">>;
+};
+
+export type BatchProgress = {
+  batchId: number;
+  status: "active" | "completed" | "cancelled";
+  overallProgress: number;
+  completedImages: number;
+  totalImages: number;
+  failedImages: number;
+  sessions: Array<{
+    sessionId: number;
+    threadUrl: string | null;
+    threadTitle: string | null;
+    status: string;
+    overallProgress: number;
+  }>;
+};
+
+// Image host links pasted from outside the forum, downloaded as a session with no thread
+export type LinkImportRequest = {
+  links: string[];
+  scanOnly?: boolean;
+  priority?: number;
+};
+
+// Result of importing pasted host links: the session created and the lines that could not be used
+export type LinkImportResult = {
+  session: DownloadSession;
+  imageCount: number;
+  rejected: Array<{ link: string; reason: string }>;
+};
+
 export type DownloadProgress = {
   sessionId: number;
   stage: "parsing" | "extracting" | "downloading" | "archiving" | "completed";
@@ -86,6 +213,27 @@ export type DownloadProgress = {
     filename: string;
     hostingSite: string;
     progress: number;
+    status: string;
+    attempts: number;
+    lastAttemptAt?: string;
+    errorMessage?: string;
   }>;
   downloadSpeed: string;
 };
+
+// One line of a session's manifest: where an image was posted and where it will be downloaded from
+export type ManifestEntry = {
+  pageNumber: number;
+  postId?: string;
+  galleryId?: string;
+  hostingSite?: string;
+  hostingPage: string;
+  directUrl?: string;
+  filename: string;
+  fileSize?: number; // From a HEAD request, when the host reports it
+  status: string;
+  attempts: number;
+};
+
+export const exportFormats = ["txt", "json", "csv", "aria2"] as const;
+export type ExportFormat = typeof exportFormats[number];